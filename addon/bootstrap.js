@@ -6,6 +6,15 @@ function install(data, reason) {}
 async function startup({ id, version, resourceURI, rootURI }, reason) {
   await Zotero.uiReadyPromise;
 
+  // Register chrome:// URLs for dialogs shipped in content/
+  const aomStartup = Components.classes[
+    "@mozilla.org/addons/addon-manager-startup;1"
+  ].getService(Components.interfaces.amIAddonManagerStartup);
+  const manifestURI = Services.io.newURI(rootURI + "manifest.json");
+  chromeHandle = aomStartup.registerChrome(manifestURI, [
+    ["content", "__addonRef__", rootURI + "content/"],
+  ]);
+
   // Load the main script
   Services.scriptloader.loadSubScript(
     rootURI + "content/scripts/index.js",
@@ -0,0 +1,62 @@
+/* eslint-disable no-undef */
+
+/**
+ * Batch progress window with Pause and Cancel controls.
+ *
+ * window.arguments[0] is an io object shared with the batch:
+ *   dataIn:   { title }
+ *   state:    { current, total, status, summary, done }
+ *   onPause:  called when Pause is clicked
+ *   onCancel: called when Cancel is clicked
+ *   update:   set by this window; the batch calls it after changing `state`
+ *
+ * Closing the window while the batch runs leaves it running in the background.
+ */
+var AiTaggerProgress = {
+  io: null,
+
+  init() {
+    this.io = window.arguments[0];
+    document.getElementById("batch-progress-title").value =
+      this.io.dataIn.title;
+    this.io.update = () => this.render();
+    this.render();
+  },
+
+  uninit() {
+    if (this.io) this.io.update = null;
+  },
+
+  render() {
+    const { current, total, status, summary, done } = this.io.state;
+
+    document.getElementById("batch-progress-meter").value = total
+      ? Math.round((current / total) * 100)
+      : 0;
+    document.getElementById("batch-progress-status").value =
+      status || `${current} / ${total}`;
+
+    const summaryEl = document.getElementById("batch-progress-summary");
+    summaryEl.textContent = summary || "";
+    summaryEl.hidden = !summary;
+
+    document.getElementById("batch-progress-pause").hidden = done;
+    document.getElementById("batch-progress-cancel").hidden = done;
+    document.getElementById("batch-progress-close").hidden = !done;
+  },
+
+  setButtonsDisabled() {
+    document.getElementById("batch-progress-pause").disabled = true;
+    document.getElementById("batch-progress-cancel").disabled = true;
+  },
+
+  pause() {
+    this.setButtonsDisabled();
+    this.io.onPause();
+  },
+
+  cancel() {
+    this.setButtonsDisabled();
+    this.io.onCancel();
+  },
+};
@@ -0,0 +1,112 @@
+/* eslint-disable no-undef */
+
+/**
+ * Per-tag confirmation dialog.
+ *
+ * window.arguments[0] is an io object:
+ *   dataIn:  { title, tags, details, autoTags, reasoning, batch }
+ *     details:  [{ name, confidence, justification }] for the tags, if known
+ *     autoTags: tags applied without review, listed for reference
+ *   dataOut: { action: "apply" | "skip" | "applyAll" | "cancel", tags }
+ */
+var AiTaggerConfirm = {
+  io: null,
+
+  init() {
+    this.io = window.arguments[0];
+    const { title, tags, reasoning, batch } = this.io.dataIn;
+    const details = new Map(
+      (this.io.dataIn.details || []).map((d) => [d.name, d]),
+    );
+    const autoTags = this.io.dataIn.autoTags || [];
+
+    // Closing the window without choosing is the same as skipping
+    this.io.dataOut = { action: "skip", tags: [] };
+
+    document.l10n.setAttributes(
+      document.getElementById("confirm-description"),
+      "confirm-description",
+      { title },
+    );
+
+    const list = document.getElementById("confirm-tag-list");
+    for (const tag of tags) {
+      const checkbox = document.createXULElement("checkbox");
+      const detail = details.get(tag);
+      checkbox.setAttribute(
+        "label",
+        detail ? `${tag} (${Math.round(detail.confidence * 100)}%)` : tag,
+      );
+      if (detail?.justification) {
+        checkbox.setAttribute("tooltiptext", detail.justification);
+      }
+      checkbox.setAttribute("checked", "true");
+      checkbox.dataset.tag = tag;
+      list.appendChild(checkbox);
+    }
+
+    if (autoTags.length > 0) {
+      const note = document.getElementById("confirm-auto-tags");
+      document.l10n.setAttributes(note, "confirm-auto-tags", {
+        tags: autoTags.join(", "),
+      });
+      note.hidden = false;
+    }
+
+    document.getElementById("confirm-reasoning-text").textContent =
+      reasoning || "";
+
+    if (batch) {
+      document.getElementById("confirm-apply-all").hidden = false;
+      document.getElementById("confirm-cancel-batch").hidden = false;
+    } else {
+      document.l10n.setAttributes(
+        document.getElementById("confirm-skip"),
+        "confirm-cancel",
+      );
+    }
+
+    document.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") this.close("skip");
+    });
+  },
+
+  setAll(checked) {
+    for (const checkbox of document.querySelectorAll(
+      "#confirm-tag-list checkbox",
+    )) {
+      checkbox.checked = checked;
+    }
+  },
+
+  /**
+   * Collect the checked tags plus any custom tags typed by the user.
+   */
+  getSelectedTags() {
+    const selected = [];
+    for (const checkbox of document.querySelectorAll(
+      "#confirm-tag-list checkbox",
+    )) {
+      if (checkbox.checked) selected.push(checkbox.dataset.tag);
+    }
+
+    const custom = document
+      .getElementById("confirm-custom-tags-input")
+      .value.split(/[,;\n]/)
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0);
+
+    return [...new Set([...selected, ...custom])];
+  },
+
+  close(action) {
+    this.io.dataOut = {
+      action,
+      tags:
+        action === "apply" || action === "applyAll"
+          ? this.getSelectedTags()
+          : [],
+    };
+    window.close();
+  },
+};
@@ -1,6 +1,47 @@
 addon-name = AI Tagger
 menuitem-generate-tags = Generate AI Tags
-menuitem-generate-tags-collection = AI Tag Entire Collection
+menuitem-generate-tags-collection =
+    { $kind ->
+        [search] AI Tag Saved Search Results
+        [unfiled] AI Tag Unfiled Items
+        [library] AI Tag Entire Library
+       *[collection] AI Tag Entire Collection
+    }
+menuitem-retag = Re-tag with AI (Force)
+menuitem-retag-collection =
+    { $kind ->
+        [search] Re-tag Saved Search Results (Force)
+        [unfiled] Re-tag Unfiled Items (Force)
+        [library] Re-tag Entire Library (Force)
+       *[collection] Re-tag Entire Collection (Force)
+    }
+menuitem-undo-last-run = Undo Last AI Tagging Run
+menuitem-undo-run = Undo AI Tagging Run…
+menuitem-dry-run = Preview AI Tags (Dry Run)…
+menuitem-dry-run-collection =
+    { $kind ->
+        [search] Preview AI Tags for Saved Search (Dry Run)…
+        [unfiled] Preview AI Tags for Unfiled Items (Dry Run)…
+        [library] Preview AI Tags for Library (Dry Run)…
+       *[collection] Preview AI Tags for Collection (Dry Run)…
+    }
+menuitem-offline-batch-collection =
+    { $kind ->
+        [search] AI Tag Saved Search Results via Batch API…
+        [unfiled] AI Tag Unfiled Items via Batch API…
+        [library] AI Tag Library via Batch API…
+       *[collection] AI Tag Collection via Batch API…
+    }
+menuitem-evaluate-collection =
+    { $kind ->
+        [search] Evaluate AI Tagging on Saved Search…
+        [unfiled] Evaluate AI Tagging on Unfiled Items…
+        [library] Evaluate AI Tagging on Library…
+       *[collection] Evaluate AI Tagging on Collection…
+    }
+menu-collection-profile = AI Tagging Profile
+menuitem-apply-report = Apply AI Tag Report…
+menuitem-jobs = AI Tagging Jobs…
 progress-title = AI Tagger
 progress-getting-tags = Getting tags…
 progress-extracting-text = Extracting text…
@@ -12,7 +53,36 @@ progress-batch-title = AI Tagger - Batch Processing
 progress-batch-status = Processing { $current } of { $total }…
 progress-batch-done = Complete: { $tags } tags added across { $items } items
 progress-batch-cancelled = Cancelled: processed { $current } of { $total }
+batch-progress-window =
+    .title = AI Tagger - Batch Processing
+batch-progress-pause =
+    .label = Pause
+batch-progress-cancel =
+    .label = Cancel
+batch-progress-close =
+    .label = Close
 confirm-title = Confirm AI Tags
 confirm-description = Select tags to apply to "{ $title }":
+confirm-window =
+    .title = AI Tagger - Confirm Tags
+confirm-select-all =
+    .label = Select All
+confirm-select-none =
+    .label = Select None
+confirm-auto-tags = Applied automatically: { $tags }
+confirm-reasoning = Reasoning:
+confirm-custom-tags = Add your own tags (comma-separated):
+confirm-custom-tags-placeholder =
+    .placeholder = e.g. methods, field study
+confirm-apply =
+    .label = Apply
+confirm-skip =
+    .label = Skip
+confirm-cancel =
+    .label = Cancel
+confirm-apply-all =
+    .label = Apply to All Remaining
+confirm-cancel-batch =
+    .label = Cancel Batch
 test-connection-success = Connection successful! Model: { $model }
 test-connection-error = Connection failed: { $message }
@@ -3,10 +3,15 @@ pref-title = AI Tagger Settings
 pref-api-title = API Configuration
 pref-api-provider = Provider
 pref-api-provider-openai = OpenAI
+pref-api-provider-anthropic = Anthropic
+pref-api-provider-local = Local (Ollama, llama.cpp, LM Studio)
 pref-api-provider-custom = Custom (OpenAI-compatible)
 pref-api-baseurl = Base URL
 pref-api-key = API Key
 pref-api-model = Model
+pref-api-model-list = Available models
+pref-api-refresh-models =
+    .label = Refresh Models
 pref-api-test = Test Connection
 
 pref-tagging-title = Tagging Behavior
@@ -17,11 +22,69 @@ pref-tagging-max = Max tags per item
 pref-tagging-temperature = Temperature
 pref-tagging-fulltext = Include full text
 pref-tagging-fulltext-maxlen = Max full text length (chars)
+pref-tagging-long-document = Analyze long documents section by section
+pref-tagging-chunk-tokens = Section size (tokens)
+pref-tagging-max-requests = Max requests per item
 pref-tagging-prefix-filter = Exclude tags with prefix
+pref-tagging-candidate-limit = Max candidate tags sent
+pref-tagging-candidate-ranking = Candidate ranking
+pref-tagging-candidate-ranking-lexical = Keyword match (offline)
+pref-tagging-candidate-ranking-embedding = Embedding similarity
+pref-tagging-candidate-ranking-statistical = Learned from library tags (offline)
+pref-tagging-embedding-model = Embedding model
+pref-tagging-few-shot = Examples from similar items
+pref-tagging-statistical = Offline tagger
+pref-tagging-statistical-off = Off
+pref-tagging-statistical-fallback = Use when the API fails
+pref-tagging-statistical-only = Use instead of the API
 pref-tagging-system-prompt = Custom system prompt
 pref-tagging-system-prompt-placeholder = Leave empty to use default prompt
 pref-tagging-confirmation = Require confirmation before applying tags
+pref-tagging-auto-apply-threshold = Auto-apply above confidence
+pref-tagging-review-threshold = Discard below confidence
+pref-tagging-skip-processed = Skip already processed items in batch runs
+pref-tagging-fewer-tags-than = Only items with fewer tags than
+pref-tagging-include-subcollections = Include subcollections when tagging a collection
+
+pref-template-title = Prompt Templates
+pref-template-item-type = Template for
+pref-template-item-type-default = All item types (default)
+pref-template-reset =
+    .label = Reset
+pref-template-placeholders = Placeholders:
+pref-template-preview-refresh =
+    .label = Preview Selected Item
+
+pref-profiles-title = Tagging Profiles
+pref-profiles = Profiles (JSON, by name)
+pref-profiles-help = Each profile can set provider, baseURL, apiKey, model, tagSource, maxTags, temperature, systemPrompt, promptTemplate, vocabularyFilter, includeFullText, maxFullTextLength and longDocumentMode. Assign profiles to collections from the collection context menu.
+
+pref-provenance-title = Tag Provenance
+pref-provenance-automatic-tags = Add AI tags as automatic tags
+pref-provenance-marker-tag = Marker tag
+pref-provenance-record = Record provenance in
+pref-provenance-record-none = Nowhere
+pref-provenance-record-extra = Extra field
+pref-provenance-record-note = Child note
+
+pref-autotag-title = Auto-tagging
+pref-autotag-enable = Automatically tag new items on import
+pref-autotag-delay = Batching delay (ms)
+pref-autotag-wait = Wait for attachment (s)
+
+pref-cache-title = Response Cache
+pref-cache-enable = Reuse stored AI responses for unchanged items
+pref-cache-clear =
+    .label = Clear Cache
+
+pref-budget-title = Cost and Budget
+pref-budget-prices = Model prices (JSON, per 1M tokens)
+pref-budget-prices-help = Map each model name to its "input" and "output" price. Names match by prefix.
+pref-budget-tokens = Token budget per run (0 = none)
+pref-budget-cost = Cost budget per run (0 = none)
 
 pref-performance-title = Performance
 pref-performance-concurrency = Concurrent requests
-pref-performance-interval = Request interval (ms)
+pref-performance-rpm = Requests per minute (0 = auto)
+pref-performance-tpm = Tokens per minute (0 = auto)
+pref-performance-timeout = Request timeout (s, 0 = default)
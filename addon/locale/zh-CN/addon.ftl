@@ -1,6 +1,47 @@
 addon-name = AI 标签助手
 menuitem-generate-tags = 生成 AI 标签
-menuitem-generate-tags-collection = AI 标记整个集合
+menuitem-generate-tags-collection =
+    { $kind ->
+        [search] AI 标记保存的搜索结果
+        [unfiled] AI 标记未分类条目
+        [library] AI 标记整个文库
+       *[collection] AI 标记整个集合
+    }
+menuitem-retag = 强制重新生成 AI 标签
+menuitem-retag-collection =
+    { $kind ->
+        [search] 强制重新标记保存的搜索结果
+        [unfiled] 强制重新标记未分类条目
+        [library] 强制重新标记整个文库
+       *[collection] 强制重新标记整个集合
+    }
+menuitem-undo-last-run = 撤销上次 AI 标记
+menuitem-undo-run = 撤销 AI 标记记录…
+menuitem-dry-run = 预览 AI 标签（试运行）…
+menuitem-dry-run-collection =
+    { $kind ->
+        [search] 预览保存的搜索结果的 AI 标签（试运行）…
+        [unfiled] 预览未分类条目的 AI 标签（试运行）…
+        [library] 预览整个文库的 AI 标签（试运行）…
+       *[collection] 预览整个分类的 AI 标签（试运行）…
+    }
+menuitem-offline-batch-collection =
+    { $kind ->
+        [search] 通过批量 API 为保存的搜索结果生成 AI 标签…
+        [unfiled] 通过批量 API 为未分类条目生成 AI 标签…
+        [library] 通过批量 API 为整个文库生成 AI 标签…
+       *[collection] 通过批量 API 为整个分类生成 AI 标签…
+    }
+menuitem-evaluate-collection =
+    { $kind ->
+        [search] 在保存的搜索结果上评估 AI 标记…
+        [unfiled] 在未分类条目上评估 AI 标记…
+        [library] 在整个文库上评估 AI 标记…
+       *[collection] 在分类上评估 AI 标记…
+    }
+menu-collection-profile = AI 标记配置方案
+menuitem-apply-report = 应用 AI 标签报告…
+menuitem-jobs = AI 标记任务…
 progress-title = AI 标签助手
 progress-getting-tags = 正在获取标签…
 progress-extracting-text = 正在提取文本…
@@ -12,7 +53,36 @@ progress-batch-title = AI 标签助手 - 批量处理
 progress-batch-status = 正在处理 { $current } / { $total }…
 progress-batch-done = 完成：为 { $items } 个条目添加了 { $tags } 个标签
 progress-batch-cancelled = 已取消：已处理 { $current } / { $total }
+batch-progress-window =
+    .title = AI 标签助手 - 批量处理
+batch-progress-pause =
+    .label = 暂停
+batch-progress-cancel =
+    .label = 取消
+batch-progress-close =
+    .label = 关闭
 confirm-title = 确认 AI 标签
 confirm-description = 选择要应用到"{ $title }"的标签：
+confirm-window =
+    .title = AI 标签助手 - 确认标签
+confirm-select-all =
+    .label = 全选
+confirm-select-none =
+    .label = 全不选
+confirm-auto-tags = 已自动应用：{ $tags }
+confirm-reasoning = 理由：
+confirm-custom-tags = 添加自定义标签（以逗号分隔）：
+confirm-custom-tags-placeholder =
+    .placeholder = 例如：方法, 田野调查
+confirm-apply =
+    .label = 应用
+confirm-skip =
+    .label = 跳过
+confirm-cancel =
+    .label = 取消
+confirm-apply-all =
+    .label = 全部应用
+confirm-cancel-batch =
+    .label = 取消批量处理
 test-connection-success = 连接成功！模型：{ $model }
 test-connection-error = 连接失败：{ $message }
@@ -3,10 +3,15 @@ pref-title = AI 标签助手设置
 pref-api-title = API 配置
 pref-api-provider = 服务商
 pref-api-provider-openai = OpenAI
+pref-api-provider-anthropic = Anthropic
+pref-api-provider-local = 本地（Ollama、llama.cpp、LM Studio）
 pref-api-provider-custom = 自定义（OpenAI 兼容）
 pref-api-baseurl = API 地址
 pref-api-key = API 密钥
 pref-api-model = 模型
+pref-api-model-list = 可用模型
+pref-api-refresh-models =
+    .label = 刷新模型列表
 pref-api-test = 测试连接
 
 pref-tagging-title = 标签行为
@@ -17,11 +22,69 @@ pref-tagging-max = 每个条目最多标签数
 pref-tagging-temperature = 温度
 pref-tagging-fulltext = 包含全文
 pref-tagging-fulltext-maxlen = 最大全文长度（字符）
+pref-tagging-long-document = 分段分析长文档
+pref-tagging-chunk-tokens = 分段大小（token）
+pref-tagging-max-requests = 每个条目最多请求数
 pref-tagging-prefix-filter = 排除前缀标签
+pref-tagging-candidate-limit = 最多发送候选标签数
+pref-tagging-candidate-ranking = 候选标签排序
+pref-tagging-candidate-ranking-lexical = 关键词匹配（离线）
+pref-tagging-candidate-ranking-embedding = 向量相似度
+pref-tagging-candidate-ranking-statistical = 从文库标签学习（离线）
+pref-tagging-embedding-model = 向量模型
+pref-tagging-few-shot = 相似条目示例数
+pref-tagging-statistical = 离线标注器
+pref-tagging-statistical-off = 关闭
+pref-tagging-statistical-fallback = API 失败时使用
+pref-tagging-statistical-only = 代替 API 使用
 pref-tagging-system-prompt = 自定义提示词
 pref-tagging-system-prompt-placeholder = 留空使用默认提示词
 pref-tagging-confirmation = 应用标签前需要确认
+pref-tagging-auto-apply-threshold = 自动应用的最低置信度
+pref-tagging-review-threshold = 低于此置信度则丢弃
+pref-tagging-skip-processed = 批量处理时跳过已处理的条目
+pref-tagging-fewer-tags-than = 仅处理标签数少于此值的条目
+pref-tagging-include-subcollections = 标记分类时包含子分类
+
+pref-template-title = 提示词模板
+pref-template-item-type = 模板适用于
+pref-template-item-type-default = 所有条目类型（默认）
+pref-template-reset =
+    .label = 重置
+pref-template-placeholders = 占位符：
+pref-template-preview-refresh =
+    .label = 预览所选条目
+
+pref-profiles-title = 标记配置方案
+pref-profiles = 配置方案（JSON，按名称）
+pref-profiles-help = 每个方案可设置 provider、baseURL、apiKey、model、tagSource、maxTags、temperature、systemPrompt、promptTemplate、vocabularyFilter、includeFullText、maxFullTextLength 和 longDocumentMode。在分类的右键菜单中为分类指定方案。
+
+pref-provenance-title = 标签来源
+pref-provenance-automatic-tags = 将 AI 标签添加为自动标签
+pref-provenance-marker-tag = 标记标签
+pref-provenance-record = 来源记录位置
+pref-provenance-record-none = 不记录
+pref-provenance-record-extra = “其他”字段
+pref-provenance-record-note = 子笔记
+
+pref-autotag-title = 自动标记
+pref-autotag-enable = 导入新条目时自动生成标签
+pref-autotag-delay = 合并等待时间（毫秒）
+pref-autotag-wait = 等待附件时间（秒）
+
+pref-cache-title = 响应缓存
+pref-cache-enable = 对未变化的条目复用已保存的 AI 响应
+pref-cache-clear =
+    .label = 清除缓存
+
+pref-budget-title = 费用与预算
+pref-budget-prices = 模型价格（JSON，每百万 token）
+pref-budget-prices-help = 为每个模型名称设置 "input" 和 "output" 价格。模型名称按前缀匹配。
+pref-budget-tokens = 每次运行的 token 预算（0 = 不限）
+pref-budget-cost = 每次运行的费用预算（0 = 不限）
 
 pref-performance-title = 性能
 pref-performance-concurrency = 并发请求数
-pref-performance-interval = 请求间隔（毫秒）
+pref-performance-rpm = 每分钟请求数（0 = 自动）
+pref-performance-tpm = 每分钟 token 数（0 = 自动）
+pref-performance-timeout = 请求超时（秒，0 = 默认）
@@ -10,10 +10,48 @@ pref("extensions.zotero.ai-tagger.maxTags", 8);
 pref("extensions.zotero.ai-tagger.temperature", "0.1");
 pref("extensions.zotero.ai-tagger.includeFullText", true);
 pref("extensions.zotero.ai-tagger.maxFullTextLength", 12000);
+pref("extensions.zotero.ai-tagger.longDocumentMode", false);
+pref("extensions.zotero.ai-tagger.chunkTokens", 3000);
+pref("extensions.zotero.ai-tagger.maxRequestsPerItem", 6);
 pref("extensions.zotero.ai-tagger.tagPrefixFilter", "_");
+pref("extensions.zotero.ai-tagger.candidateLimit", 200);
+pref("extensions.zotero.ai-tagger.candidateRanking", "lexical");
+pref("extensions.zotero.ai-tagger.embeddingModel", "text-embedding-3-small");
+pref("extensions.zotero.ai-tagger.fewShotExamples", 0);
+pref("extensions.zotero.ai-tagger.statisticalTagging", "off");
 pref("extensions.zotero.ai-tagger.systemPrompt", "You are a research librarian helping categorize academic documents. Suggest only tags that best describe the document's content, methodology, and subject area.");
+pref("extensions.zotero.ai-tagger.promptTemplates", "{}");
 pref("extensions.zotero.ai-tagger.confirmationMode", false);
+pref("extensions.zotero.ai-tagger.autoApplyThreshold", "0");
+pref("extensions.zotero.ai-tagger.reviewThreshold", "0");
+pref("extensions.zotero.ai-tagger.skipProcessed", true);
+pref("extensions.zotero.ai-tagger.fewerTagsThan", 0);
+pref("extensions.zotero.ai-tagger.includeSubcollections", false);
+
+// Tagging profiles
+pref("extensions.zotero.ai-tagger.profiles", "{}");
+pref("extensions.zotero.ai-tagger.profileAssignments", "{}");
+
+// Tag provenance
+pref("extensions.zotero.ai-tagger.automaticTags", false);
+pref("extensions.zotero.ai-tagger.markerTag", "");
+pref("extensions.zotero.ai-tagger.provenance", "none");
+
+// Auto-tagging
+pref("extensions.zotero.ai-tagger.autoTagOnImport", false);
+pref("extensions.zotero.ai-tagger.autoTagDelay", 5000);
+pref("extensions.zotero.ai-tagger.autoTagWaitSeconds", 30);
+
+// Response cache
+pref("extensions.zotero.ai-tagger.useResponseCache", true);
+
+// Cost and budget
+pref("extensions.zotero.ai-tagger.modelPrices", "{\"gpt-4.1-mini\": {\"input\": 0.4, \"output\": 1.6}, \"gpt-4.1\": {\"input\": 2, \"output\": 8}, \"gpt-4o-mini\": {\"input\": 0.15, \"output\": 0.6}, \"gpt-4o\": {\"input\": 2.5, \"output\": 10}, \"claude-sonnet-4-5\": {\"input\": 3, \"output\": 15}, \"claude-haiku-4-5\": {\"input\": 1, \"output\": 5}}");
+pref("extensions.zotero.ai-tagger.budgetTokens", 0);
+pref("extensions.zotero.ai-tagger.budgetCost", "0");
 
 // Performance
 pref("extensions.zotero.ai-tagger.concurrency", 3);
-pref("extensions.zotero.ai-tagger.requestInterval", 1000);
+pref("extensions.zotero.ai-tagger.requestsPerMinute", 60);
+pref("extensions.zotero.ai-tagger.tokensPerMinute", 0);
+pref("extensions.zotero.ai-tagger.requestTimeout", 0);
@@ -0,0 +1,215 @@
+/**
+ * Local stand-in for an OpenAI-compatible API, for trying the plugin's
+ * offline Batch API mode without a real provider.
+ *
+ * Implements /v1/models, /v1/chat/completions, /v1/files,
+ * /v1/files/:id/content, /v1/batches, /v1/batches/:id and
+ * /v1/batches/:id/cancel. Answers are built from each request's JSON
+ * schema, picking the first allowed value for enums (e.g. library tags).
+ * A batch moves one status forward each time it is polled:
+ * validating → in_progress → finalizing → completed.
+ *
+ * Usage: node scripts/mock-batch-server.mjs [port]
+ * Then set the provider to Custom and the base URL to http://localhost:<port>/v1
+ */
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const port = Number(process.argv[2]) || 8787;
+const MODEL = "mock-model";
+const BATCH_STATUSES = ["validating", "in_progress", "finalizing", "completed"];
+
+const files = new Map();
+const batches = new Map();
+
+function id(prefix) {
+  return `${prefix}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Build a value that satisfies a JSON schema.
+ */
+function exampleFromSchema(schema) {
+  if (Array.isArray(schema?.enum)) return schema.enum[0];
+  switch (schema?.type) {
+    case "object": {
+      const value = {};
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        value[key] = exampleFromSchema(child);
+      }
+      return value;
+    }
+    case "array":
+      return [exampleFromSchema(schema.items)];
+    case "number":
+    case "integer":
+      return 0.9;
+    case "boolean":
+      return true;
+    default:
+      return "mock";
+  }
+}
+
+/**
+ * Answer a chat completion request body in OpenAI's response format.
+ */
+function completeChat(body) {
+  const message = { role: "assistant", content: "Hello from the mock server" };
+  const tool = body.tools?.[0]?.function;
+  if (tool) {
+    message.content = null;
+    message.tool_calls = [
+      {
+        id: id("call"),
+        type: "function",
+        function: {
+          name: tool.name,
+          arguments: JSON.stringify(exampleFromSchema(tool.parameters)),
+        },
+      },
+    ];
+  } else if (body.response_format?.type === "json_schema") {
+    message.content = JSON.stringify(
+      exampleFromSchema(body.response_format.json_schema.schema),
+    );
+  } else if (body.response_format?.type === "json_object") {
+    message.content = JSON.stringify({ answer: "yes" });
+  }
+
+  return {
+    id: id("chatcmpl"),
+    object: "chat.completion",
+    model: body.model || MODEL,
+    choices: [{ index: 0, message, finish_reason: "stop" }],
+    usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+  };
+}
+
+/**
+ * Pull the "file" part out of a multipart/form-data body.
+ */
+function parseMultipartFile(body, contentType) {
+  const boundary = /boundary=(.+)$/.exec(contentType || "")?.[1];
+  if (!boundary) return null;
+  for (const part of body.split(`--${boundary}`)) {
+    if (!/name="file"/.test(part)) continue;
+    const start = part.indexOf("\r\n\r\n");
+    return part.slice(start + 4).replace(/\r\n$/, "");
+  }
+  return null;
+}
+
+/**
+ * Run every request in a batch's input file and store the output file.
+ */
+function finishBatch(batch) {
+  const lines = files
+    .get(batch.input_file_id)
+    .split("\n")
+    .filter((line) => line.trim());
+  const output = lines.map((line) => {
+    const request = JSON.parse(line);
+    return JSON.stringify({
+      id: id("batch_req"),
+      custom_id: request.custom_id,
+      response: {
+        status_code: 200,
+        request_id: id("req"),
+        body: completeChat(request.body),
+      },
+      error: null,
+    });
+  });
+  batch.output_file_id = id("file");
+  files.set(batch.output_file_id, output.join("\n") + "\n");
+  batch.request_counts = {
+    total: lines.length,
+    completed: lines.length,
+    failed: 0,
+  };
+}
+
+function send(res, status, data) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+const server = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const path = new URL(req.url, `http://localhost:${port}`).pathname;
+    console.log(`${req.method} ${path}`);
+    let match;
+
+    if (req.method === "GET" && path === "/v1/models") {
+      return send(res, 200, { data: [{ id: MODEL, object: "model" }] });
+    }
+
+    if (req.method === "POST" && path === "/v1/chat/completions") {
+      return send(res, 200, completeChat(JSON.parse(body)));
+    }
+
+    if (req.method === "POST" && path === "/v1/files") {
+      const content = parseMultipartFile(body, req.headers["content-type"]);
+      if (content === null) {
+        return send(res, 400, { error: { message: "Missing file part" } });
+      }
+      const fileID = id("file");
+      files.set(fileID, content);
+      return send(res, 200, { id: fileID, object: "file", purpose: "batch" });
+    }
+
+    if (
+      req.method === "GET" &&
+      (match = /^\/v1\/files\/([^/]+)\/content$/.exec(path))
+    ) {
+      if (!files.has(match[1])) {
+        return send(res, 404, { error: { message: "No such file" } });
+      }
+      res.writeHead(200, { "Content-Type": "application/jsonl" });
+      return res.end(files.get(match[1]));
+    }
+
+    if (req.method === "POST" && path === "/v1/batches") {
+      const { input_file_id } = JSON.parse(body);
+      if (!files.has(input_file_id)) {
+        return send(res, 400, { error: { message: "No such input file" } });
+      }
+      const batch = {
+        id: id("batch"),
+        object: "batch",
+        input_file_id,
+        status: BATCH_STATUSES[0],
+        output_file_id: null,
+        error_file_id: null,
+      };
+      batches.set(batch.id, batch);
+      return send(res, 200, batch);
+    }
+
+    if ((match = /^\/v1\/batches\/([^/]+)(\/cancel)?$/.exec(path))) {
+      const batch = batches.get(match[1]);
+      if (!batch) return send(res, 404, { error: { message: "No such batch" } });
+
+      if (req.method === "POST" && match[2]) {
+        batch.status = "cancelled";
+      } else if (req.method === "GET") {
+        const next = BATCH_STATUSES.indexOf(batch.status) + 1;
+        if (next > 0 && next < BATCH_STATUSES.length) {
+          batch.status = BATCH_STATUSES[next];
+          if (batch.status === "completed") finishBatch(batch);
+        }
+      }
+      return send(res, 200, batch);
+    }
+
+    send(res, 404, { error: { message: `Unknown endpoint ${path}` } });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock API listening on http://localhost:${port}/v1`);
+});
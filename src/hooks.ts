@@ -1,13 +1,28 @@
-import { registerMenu, unregisterMenu } from "./modules/menu";
+import {
+  registerAutoTagger,
+  unregisterAutoTagger,
+} from "./modules/auto-tagger";
+import { flushJobs } from "./modules/batch-jobs";
+import {
+  offerToResumeJobs,
+  registerMenu,
+  unregisterMenu,
+} from "./modules/menu";
 import { registerPrefs, unregisterPrefs } from "./modules/preferences";
+import { flushCache } from "./modules/response-cache";
+import { flushProcessed } from "./modules/processed-items";
 
 export function onStartup() {
+  registerAutoTagger();
   Zotero.debug("[AI Tagger] Plugin started");
 }
 
 export function onMainWindowLoad(win: Window) {
   registerMenu(win);
   registerPrefs();
+  offerToResumeJobs(win).catch((e) =>
+    Zotero.debug(`[AI Tagger] Failed to offer job resume: ${e}`),
+  );
   Zotero.debug("[AI Tagger] Main window loaded");
 }
 
@@ -17,6 +32,16 @@ export function onMainWindowUnload(win: Window) {
 }
 
 export function onShutdown() {
+  unregisterAutoTagger();
+  flushCache().catch((e) =>
+    Zotero.debug(`[AI Tagger] Failed to flush response cache: ${e}`),
+  );
+  flushJobs().catch((e) =>
+    Zotero.debug(`[AI Tagger] Failed to flush batch jobs: ${e}`),
+  );
+  flushProcessed().catch((e) =>
+    Zotero.debug(`[AI Tagger] Failed to flush processed items: ${e}`),
+  );
   unregisterPrefs();
   Zotero.debug("[AI Tagger] Plugin shutdown");
 }
@@ -1,4 +1,26 @@
+import {
+  capabilitiesKey,
+  chooseStructuredOutput,
+  fallbackCapabilities,
+  getCachedCapabilities,
+  removeCachedCapabilities,
+  setCachedCapabilities,
+  type ProviderCapabilities,
+} from "./capabilities";
+import { estimateMessagesTokens, estimateTokens } from "./cost-estimator";
 import { getPref } from "./preferences";
+import {
+  getProviderAdapter,
+  type BodyOptions,
+  type ProviderAdapter,
+  type StructuredOutputMode,
+} from "./providers";
+import {
+  backoffWithJitter,
+  parseRetryAfter,
+  rateLimiter,
+  type ReleaseFn,
+} from "./rate-limiter";
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
@@ -21,6 +43,24 @@ export interface ResponseFormat {
   };
 }
 
+export interface ChatCompletionOptions {
+  maxRetries?: number;
+  /** Set to false to ask for JSON in the prompt only */
+  useStructuredOutput?: boolean;
+  /** Aborts the request and any wait before a retry */
+  signal?: AbortSignal;
+  /** Provider and model to use instead of the configured ones */
+  connection?: Connection;
+}
+
+/** Where requests are sent. */
+export interface Connection {
+  provider: string;
+  baseURL: string;
+  apiKey: string;
+  model: string;
+}
+
 export interface ChatCompletionResponse {
   choices: {
     message: {
@@ -37,120 +77,531 @@ export interface ChatCompletionResponse {
   };
 }
 
+/**
+ * Get the configured connection, with any fields of `overrides` (e.g. from
+ * a tagging profile) taking precedence.
+ */
+export function getConnection(overrides: Partial<Connection> = {}): Connection {
+  return {
+    provider: overrides.provider || (getPref("provider") as string),
+    baseURL: overrides.baseURL || (getPref("baseURL") as string),
+    apiKey: overrides.apiKey ?? (getPref("apiKey") as string),
+    model: overrides.model || (getPref("model") as string),
+  };
+}
+
+/**
+ * Get the adapter for a connection's provider.
+ */
+function getAdapter(connection = getConnection()): ProviderAdapter {
+  return getProviderAdapter(connection.provider, connection.baseURL);
+}
+
 /**
  * Build the API URL based on provider config.
  */
-function buildURL(): string {
-  const baseURL = getPref("baseURL") as string;
-  // Ensure no trailing slash
-  const base = baseURL.replace(/\/+$/, "");
+function buildURL(
+  adapter: ProviderAdapter,
+  connection = getConnection(),
+): string {
+  return adapter.buildURL(connection.baseURL);
+}
+
+/**
+ * Build request headers.
+ */
+function buildHeaders(
+  adapter: ProviderAdapter,
+  connection = getConnection(),
+): Record<string, string> {
+  return adapter.buildHeaders(connection.apiKey);
+}
+
+/**
+ * Get the per-request timeout: the preference if set, else the provider default.
+ */
+function getTimeout(adapter: ProviderAdapter): number {
+  const seconds = (getPref("requestTimeout") as number) || 0;
+  return seconds > 0 ? seconds * 1000 : adapter.timeout;
+}
 
-  // If user already included /chat/completions, use as-is
-  if (base.endsWith("/chat/completions")) {
-    return base;
+/**
+ * Sleep for a given number of milliseconds.
+ * Rejects straight away if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Request cancelled"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Request cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch() that aborts after the given timeout, or when `signal` is aborted.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<Response> {
+  if (signal?.aborted) throw new Error("Request cancelled");
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error("Request cancelled");
+    }
+    if (controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeoutMs / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
   }
+}
 
-  return `${base}/chat/completions`;
+/**
+ * Build an error message from a failed response.
+ * Handles both `{ error: { message } }` and Ollama's `{ error: "..." }`.
+ */
+async function describeHTTPError(response: Response): Promise<string> {
+  let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  try {
+    const errorData = (await response.json()) as any;
+    const detail =
+      typeof errorData.error === "string"
+        ? errorData.error
+        : errorData.error?.message;
+    errorMessage += ` - ${detail || ""}`;
+  } catch {
+    // Ignore JSON parse errors
+  }
+  return errorMessage;
 }
 
+/** Small schema used to probe structured output support. */
+const PROBE_FORMAT: ResponseFormat = {
+  type: "json_schema",
+  json_schema: {
+    name: "probe",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: { answer: { type: "string" } },
+      required: ["answer"],
+      additionalProperties: false,
+    },
+  },
+};
+
+/** Room for the probe's answer, including reasoning models' hidden tokens. */
+const PROBE_MAX_TOKENS = 256;
+
+/** Parameters a 4xx error names when the provider rejects structured output. */
+const STRUCTURED_OUTPUT_ERROR =
+  /response_format|json_schema|json_object|tool_choice|\btools?\b|structured/i;
+
+/** Probes in flight, so concurrent requests share one probe per model. */
+const probes = new Map<string, Promise<ProviderCapabilities>>();
+
 /**
- * Build request headers.
+ * Build an example value from a JSON schema, for prompt-based JSON instructions.
+ */
+function describeSchema(schema: unknown): unknown {
+  if (!isObject(schema)) return "...";
+  switch (schema.type) {
+    case "object": {
+      const example: Record<string, unknown> = {};
+      const properties = isObject(schema.properties) ? schema.properties : {};
+      for (const [key, value] of Object.entries(properties)) {
+        example[key] = describeSchema(value);
+      }
+      return example;
+    }
+    case "array":
+      return [describeSchema(schema.items)];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return true;
+    default:
+      return typeof schema.description === "string" && schema.description
+        ? schema.description
+        : "...";
+  }
+}
+
+/**
+ * Copy the request with a JSON instruction added to the last user message,
+ * for modes where the provider doesn't enforce the schema itself.
  */
-function buildHeaders(): Record<string, string> {
-  const apiKey = getPref("apiKey") as string;
+function withJSONInstruction(
+  request: ChatCompletionRequest,
+  mode: StructuredOutputMode,
+): ChatCompletionRequest {
+  const format = request.response_format;
+  const last = request.messages[request.messages.length - 1];
+  if (!format || mode === "json_schema" || mode === "tools") return request;
+  if (last?.role !== "user") return request;
+
+  const example = JSON.stringify(describeSchema(format.json_schema.schema));
   return {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${apiKey}`,
+    ...request,
+    messages: [
+      ...request.messages.slice(0, -1),
+      {
+        ...last,
+        content: `${last.content}\n\nIMPORTANT: You must respond with ONLY a valid JSON object, no other text. The JSON must have this exact structure: ${example}`,
+      },
+    ],
   };
 }
 
 /**
- * Sleep for a given number of milliseconds.
+ * Send one probe request through the shared rate limiter, without retries.
+ * Resolves to the response, or to the error if the provider rejected the
+ * request (4xx). Rate limits, server errors and network errors throw,
+ * since they say nothing about what the model supports.
+ */
+async function sendProbe(
+  adapter: ProviderAdapter,
+  connection: Connection,
+  request: ChatCompletionRequest,
+  options: BodyOptions,
+): Promise<{ response?: ChatCompletionResponse; error?: string }> {
+  const release = await rateLimiter.acquire(
+    estimateMessagesTokens(request.messages) + (request.max_tokens || 0),
+  );
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(
+      buildURL(adapter, connection),
+      {
+        method: "POST",
+        headers: buildHeaders(adapter, connection),
+        body: JSON.stringify(
+          buildRequestBody(adapter, connection, request, options),
+        ),
+      },
+      getTimeout(adapter),
+    );
+    rateLimiter.updateFromHeaders(response.headers);
+  } finally {
+    release();
+  }
+
+  if (response.status === 429) {
+    rateLimiter.throttled(
+      parseRetryAfter(response.headers) ?? backoffWithJitter(0),
+    );
+    throw new Error(await describeHTTPError(response));
+  }
+  if (response.status >= 500) {
+    throw new Error(await describeHTTPError(response));
+  }
+  if (!response.ok) {
+    return { error: await describeHTTPError(response) };
+  }
+  return { response: adapter.parseResponse(await response.json()) };
+}
+
+/**
+ * Check whether a probe answer holds the requested JSON object.
+ */
+function isProbeAnswer(response?: ChatCompletionResponse): boolean {
+  const content = response?.choices[0]?.message.content || "";
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return false;
+  try {
+    return typeof JSON.parse(match[0]).answer === "string";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Probe a connection's model: which token-limit parameter it accepts, and
+ * which structured output modes actually return the requested JSON.
+ * Throws if even a plain request fails.
+ */
+async function probeCapabilities(connection = getConnection()): Promise<{
+  model: string;
+  capabilities: ProviderCapabilities;
+}> {
+  const adapter = getAdapter(connection);
+  const basic: ChatCompletionRequest = {
+    messages: [{ role: "user", content: "Hello" }],
+    max_tokens: 5,
+  };
+
+  // Newer OpenAI models reject max_tokens; try the other name before giving up
+  let maxTokensParam: BodyOptions["maxTokensParam"] = "max_tokens";
+  let plain = await sendProbe(adapter, connection, basic, {
+    structuredOutput: "prompt",
+    maxTokensParam,
+  });
+  if (plain.error) {
+    const retry = await sendProbe(adapter, connection, basic, {
+      structuredOutput: "prompt",
+      maxTokensParam: "max_completion_tokens",
+    });
+    if (retry.error) throw new Error(plain.error);
+    plain = retry;
+    maxTokensParam = "max_completion_tokens";
+  }
+
+  const supported = new Set<StructuredOutputMode>();
+  for (const mode of adapter.structuredOutputModes) {
+    const result = await sendProbe(
+      adapter,
+      connection,
+      {
+        messages: [
+          {
+            role: "user",
+            content: 'Reply in JSON with an "answer" field set to "yes".',
+          },
+        ],
+        max_tokens: PROBE_MAX_TOKENS,
+        response_format: PROBE_FORMAT,
+      },
+      { structuredOutput: mode, maxTokensParam },
+    );
+    if (isProbeAnswer(result.response)) supported.add(mode);
+    Zotero.debug(
+      `[AI Tagger] Capability probe ${mode}: ${supported.has(mode) ? "supported" : result.error || "no JSON answer"}`,
+    );
+  }
+
+  return {
+    model: plain.response?.model || connection.model,
+    capabilities: {
+      jsonSchema: supported.has("json_schema"),
+      jsonObject: supported.has("json_object"),
+      tools: supported.has("tools"),
+      maxTokensParam,
+      probedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Get a connection's model capabilities, probing once if they aren't
+ * cached yet. If the probe can't run, the provider's fallback mode is
+ * cached for a while before probing again.
+ */
+async function getCapabilities(
+  connection: Connection,
+): Promise<ProviderCapabilities> {
+  const cached = await getCachedCapabilities(connection);
+  if (cached) return cached;
+
+  const key = capabilitiesKey(connection);
+  let probe = probes.get(key);
+  if (!probe) {
+    probe = probeCapabilities(connection)
+      .then(({ capabilities }) => capabilities)
+      .catch((e) => {
+        Zotero.debug(`[AI Tagger] Capability probe failed: ${e}`);
+        return fallbackCapabilities(
+          getAdapter(connection).fallbackStructuredOutput,
+        );
+      })
+      .then(async (capabilities) => {
+        await setCachedCapabilities(connection, capabilities);
+        return capabilities;
+      });
+    probes.set(key, probe);
+    probe.then(
+      () => probes.delete(key),
+      () => probes.delete(key),
+    );
+  }
+  return probe;
+}
+
+/**
+ * Choose the body options for a connection from the model's probed
+ * capabilities.
+ */
+async function getBodyOptions(
+  connection: Connection,
+  useStructuredOutput: boolean,
+): Promise<BodyOptions> {
+  const capabilities = await getCapabilities(connection);
+  return {
+    structuredOutput: useStructuredOutput
+      ? chooseStructuredOutput(capabilities)
+      : "prompt",
+    maxTokensParam: capabilities.maxTokensParam,
+  };
+}
+
+/**
+ * Build a provider request body.
+ */
+function buildRequestBody(
+  adapter: ProviderAdapter,
+  connection: Connection,
+  request: ChatCompletionRequest,
+  options: BodyOptions,
+): Record<string, unknown> {
+  return adapter.buildBody(
+    withJSONInstruction(request, options.structuredOutput),
+    connection.model,
+    options,
+  );
+}
+
+/**
+ * The mode to retry with after a provider rejected `rejected`: the one
+ * every model of the provider supports, else prompt-based JSON.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function getFallbackMode(
+  adapter: ProviderAdapter,
+  rejected: StructuredOutputMode,
+): StructuredOutputMode {
+  const fallback = adapter.fallbackStructuredOutput || "prompt";
+  return fallback === rejected ? "prompt" : fallback;
 }
 
 /**
  * Send a chat completion request with retry logic.
+ * Structured output uses the best mode the model was probed to support.
+ * If the provider rejects that mode, the probe is forgotten and the
+ * request retried once in the fallback mode.
+ * Every attempt goes through the shared rate limiter.
  */
 export async function chatCompletion(
   request: ChatCompletionRequest,
-  options?: { maxRetries?: number; useStructuredOutput?: boolean },
+  options?: ChatCompletionOptions,
 ): Promise<ChatCompletionResponse> {
   const maxRetries = options?.maxRetries ?? 3;
   const useStructuredOutput = options?.useStructuredOutput ?? true;
+  const signal = options?.signal;
+  const connection = options?.connection || getConnection();
 
-  const model = getPref("model") as string;
-  const url = buildURL();
-  const headers = buildHeaders();
+  const adapter = getAdapter(connection);
+  const url = buildURL(adapter, connection);
+  const headers = buildHeaders(adapter, connection);
 
-  // Build request body
-  const body: Record<string, unknown> = {
-    model,
-    messages: request.messages,
-    temperature: request.temperature,
-    max_tokens: request.max_tokens,
-  };
-
-  if (useStructuredOutput && request.response_format) {
-    body.response_format = request.response_format;
-  }
+  let bodyOptions = await getBodyOptions(connection, useStructuredOutput);
+  let body = buildRequestBody(adapter, connection, request, bodyOptions);
+  let fellBack = false;
+  const estimatedTokens =
+    estimateMessagesTokens(request.messages) + (request.max_tokens || 0);
 
   let lastError: Error | null = null;
+  let waitMs = 0;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    // Back off outside the limiter so the wait doesn't hold a slot
+    if (waitMs > 0) {
+      await sleep(waitMs, signal);
+      waitMs = 0;
+    }
+
+    let release: ReleaseFn | null = null;
+    let actualTokens: number | undefined;
     try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(body),
-      });
+      release = await rateLimiter.acquire(estimatedTokens, signal);
+      const response = await fetchWithTimeout(
+        url,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify(body),
+        },
+        getTimeout(adapter),
+        signal,
+      );
+      rateLimiter.updateFromHeaders(response.headers);
 
       if (response.status === 429) {
-        // Rate limited - extract retry-after if available
-        const retryAfter = response.headers.get("retry-after");
-        const waitMs = retryAfter
-          ? parseInt(retryAfter, 10) * 1000
-          : Math.min(1000 * Math.pow(2, attempt), 30000);
+        // Rate limited: the limiter holds every request until retry-after
+        const retryAfter =
+          parseRetryAfter(response.headers) ?? backoffWithJitter(attempt);
+        rateLimiter.throttled(retryAfter);
+        lastError = new Error(await describeHTTPError(response));
         Zotero.debug(
-          `[AI Tagger] Rate limited (429), waiting ${waitMs}ms before retry ${attempt + 1}/${maxRetries}`,
+          `[AI Tagger] Rate limited (429), retry ${attempt + 1}/${maxRetries} after ${retryAfter}ms`,
         );
-        await sleep(waitMs);
         continue;
       }
 
       if (response.status >= 500 && attempt < maxRetries) {
-        const waitMs = Math.min(1000 * Math.pow(2, attempt), 30000);
+        waitMs = backoffWithJitter(attempt);
         Zotero.debug(
           `[AI Tagger] Server error (${response.status}), waiting ${waitMs}ms before retry ${attempt + 1}/${maxRetries}`,
         );
-        await sleep(waitMs);
         continue;
       }
 
       if (!response.ok) {
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        try {
-          const errorData = (await response.json()) as any;
-          errorMessage += ` - ${errorData.error?.message || ""}`;
-        } catch {
-          // Ignore JSON parse errors
+        const message = await describeHTTPError(response);
+        if (
+          !fellBack &&
+          bodyOptions.structuredOutput !== "prompt" &&
+          STRUCTURED_OUTPUT_ERROR.test(message)
+        ) {
+          // The probed mode stopped working, e.g. behind a new gateway
+          fellBack = true;
+          lastError = new Error(message);
+          await removeCachedCapabilities(connection);
+          bodyOptions = {
+            ...bodyOptions,
+            structuredOutput: getFallbackMode(
+              adapter,
+              bodyOptions.structuredOutput,
+            ),
+          };
+          body = buildRequestBody(adapter, connection, request, bodyOptions);
+          Zotero.debug(
+            `[AI Tagger] Structured output rejected (${message}), retrying with ${bodyOptions.structuredOutput}`,
+          );
+          continue;
         }
-        throw new Error(errorMessage);
+        throw new Error(message);
       }
 
-      const result = (await response.json()) as unknown as ChatCompletionResponse;
+      const result = adapter.parseResponse(await response.json());
+      rateLimiter.succeeded();
+      if (result.usage) {
+        actualTokens =
+          result.usage.prompt_tokens + result.usage.completion_tokens;
+      }
       return result;
     } catch (error) {
+      // Cancellation is final; don't retry
+      if (signal?.aborted) throw error;
       lastError = error as Error;
       if (attempt < maxRetries) {
-        const waitMs = Math.min(1000 * Math.pow(2, attempt), 30000);
+        waitMs = backoffWithJitter(attempt);
         Zotero.debug(
           `[AI Tagger] Request failed: ${lastError.message}, retrying in ${waitMs}ms (${attempt + 1}/${maxRetries})`,
         );
-        await sleep(waitMs);
       }
+    } finally {
+      release?.(actualTokens);
     }
   }
 
@@ -158,76 +609,311 @@ export async function chatCompletion(
 }
 
 /**
- * Fallback: send request without structured output (for providers that don't support it).
- * Adds JSON instruction to the prompt instead.
+ * Test the API connection and probe the model's capabilities, replacing
+ * any cached probe. Returns the model name and what it supports; throws
+ * if the connection fails.
  */
-export async function chatCompletionWithFallback(
-  request: ChatCompletionRequest,
-): Promise<ChatCompletionResponse> {
+export async function testConnection(): Promise<{
+  model: string;
+  capabilities: ProviderCapabilities;
+}> {
+  const connection = getConnection();
+  const result = await probeCapabilities(connection);
+  await setCachedCapabilities(connection, result.capabilities);
+  return result;
+}
+
+/**
+ * List the models available from the configured provider.
+ * Uses /models for OpenAI-style APIs and /api/tags for Ollama.
+ */
+export async function listModels(): Promise<string[]> {
+  const adapter = getAdapter();
+  const url = adapter.buildModelsURL(getPref("baseURL") as string);
+  const headers = buildHeaders(adapter);
+
+  const response = await fetchWithTimeout(
+    url,
+    { method: "GET", headers },
+    getTimeout(adapter),
+  );
+
+  if (!response.ok) {
+    throw new Error(await describeHTTPError(response));
+  }
+
+  return adapter.parseModels(await response.json()).sort();
+}
+
+/**
+ * Embed a list of texts with the configured provider.
+ * Both OpenAI-style /embeddings and Ollama's /api/embed take `{ model, input }`.
+ */
+export async function createEmbeddings(
+  texts: string[],
+  model: string,
+): Promise<number[][]> {
+  const adapter = getAdapter();
+  if (!adapter.buildEmbeddingsURL || !adapter.parseEmbeddings) {
+    throw new Error("Embeddings are not supported by this provider");
+  }
+
+  const url = adapter.buildEmbeddingsURL(getPref("baseURL") as string);
+  const headers = buildHeaders(adapter);
+
+  const release = await rateLimiter.acquire(
+    texts.reduce((sum, text) => sum + estimateTokens(text), 0),
+  );
+  let response: Response;
   try {
-    // First try with structured output
-    return await chatCompletion(request, { useStructuredOutput: true });
-  } catch (error) {
-    const err = error as Error;
-    // If structured output is not supported, retry without it
-    if (
-      err.message.includes("response_format") ||
-      err.message.includes("json_schema") ||
-      err.message.includes("not supported")
-    ) {
-      Zotero.debug(
-        "[AI Tagger] Structured output not supported, falling back to prompt-based JSON",
-      );
+    response = await fetchWithTimeout(
+      url,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model, input: texts }),
+      },
+      getTimeout(adapter),
+    );
+    rateLimiter.updateFromHeaders(response.headers);
+  } finally {
+    release();
+  }
 
-      // Add JSON instruction to the last user message
-      const modifiedMessages = [...request.messages];
-      const lastMsg = modifiedMessages[modifiedMessages.length - 1];
-      if (lastMsg.role === "user") {
-        lastMsg.content +=
-          "\n\nIMPORTANT: You must respond with ONLY a valid JSON object, no other text. The JSON must have this exact structure: { \"tags\": [\"tag1\", \"tag2\"], \"reasoning\": \"explanation\" }";
-      }
+  if (!response.ok) {
+    throw new Error(await describeHTTPError(response));
+  }
 
-      return await chatCompletion(
-        { ...request, response_format: undefined },
-        { useStructuredOutput: false },
-      );
-    }
-    throw error;
+  const embeddings = adapter.parseEmbeddings(await response.json());
+  if (embeddings.length !== texts.length) {
+    throw new Error(
+      `Expected ${texts.length} embeddings, got ${embeddings.length}`,
+    );
+  }
+  return embeddings;
+}
+
+/** Chat endpoint named in each line of a Batch API input file. */
+const BATCH_ENDPOINT = "/v1/chat/completions";
+
+/** A Batch API job as returned by /batches. */
+export interface RemoteBatchStatus {
+  id: string;
+  /** validating, in_progress, finalizing, completed, failed, expired, cancelling or cancelled */
+  status: string;
+  output_file_id?: string | null;
+  error_file_id?: string | null;
+  request_counts?: { total: number; completed: number; failed: number };
+}
+
+/** A file as returned by /files. */
+interface RemoteFile {
+  id: string;
+}
+
+/** One line of a Batch API output or error file. */
+export interface BatchOutputLine {
+  custom_id: string;
+  /** The request's HTTP response; absent if the request couldn't be sent */
+  response?: {
+    status_code: number;
+    /** The chat response, or an error body for failed requests */
+    body?: { error?: { message?: string } };
+  } | null;
+  error?: { code?: string; message?: string } | null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isRemoteFile(value: unknown): value is RemoteFile {
+  return isObject(value) && typeof value.id === "string";
+}
+
+function isBatchStatus(value: unknown): value is RemoteBatchStatus {
+  return (
+    isObject(value) &&
+    typeof value.id === "string" &&
+    typeof value.status === "string"
+  );
+}
+
+function isBatchOutputLine(value: unknown): value is BatchOutputLine {
+  if (!isObject(value) || typeof value.custom_id !== "string") return false;
+  const response = value.response;
+  return (
+    response == null ||
+    (isObject(response) && typeof response.status_code === "number")
+  );
+}
+
+/**
+ * Check a /batches response, throwing if it isn't a batch.
+ */
+function toBatchStatus(data: unknown): RemoteBatchStatus {
+  if (!isBatchStatus(data)) {
+    throw new Error("The provider's batch response has no ID or status");
   }
+  return data;
 }
 
 /**
- * Test the API connection by sending a minimal request.
- * Returns the model name on success, throws on failure.
+ * Parse one line of a Batch API output or error file, or return null if
+ * it isn't a batch result.
  */
-export async function testConnection(): Promise<string> {
-  const model = getPref("model") as string;
-  const url = buildURL();
-  const headers = buildHeaders();
+export function parseBatchOutputLine(line: string): BatchOutputLine | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  return isBatchOutputLine(data) ? data : null;
+}
 
-  const body = {
-    model,
-    messages: [{ role: "user", content: "Hello" }],
-    max_tokens: 5,
-  };
+/**
+ * Send a request to the provider's Batch API and return the response body.
+ * Throws if the provider has no Batch API or the request fails.
+ */
+async function batchAPIRequest(
+  path: string,
+  init: RequestInit,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const adapter = getAdapter();
+  if (!adapter.buildBatchRootURL) {
+    throw new Error(
+      "The Batch API needs an OpenAI or OpenAI-compatible provider",
+    );
+  }
+  const url = `${adapter.buildBatchRootURL(getPref("baseURL") as string)}${path}`;
+  const response = await fetchWithTimeout(
+    url,
+    {
+      ...init,
+      headers: { ...buildHeaders(adapter), ...(init.headers as object) },
+    },
+    getTimeout(adapter),
+    signal,
+  );
+  if (!response.ok) {
+    throw new Error(await describeHTTPError(response));
+  }
+  return response;
+}
 
-  const response = await fetch(url, {
+/**
+ * Build one line of a Batch API input file, using the same body a live
+ * request would send.
+ */
+export async function buildBatchLine(
+  customID: string,
+  request: ChatCompletionRequest,
+): Promise<string> {
+  const connection = getConnection();
+  const body = buildRequestBody(
+    getAdapter(connection),
+    connection,
+    request,
+    await getBodyOptions(connection, true),
+  );
+  return JSON.stringify({
+    custom_id: customID,
     method: "POST",
-    headers,
-    body: JSON.stringify(body),
+    url: BATCH_ENDPOINT,
+    body,
   });
+}
 
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    try {
-      const errorData = await response.json();
-      errorMessage += ` - ${(errorData as any).error?.message || ""}`;
-    } catch {
-      // Ignore JSON parse errors
-    }
-    throw new Error(errorMessage);
+/**
+ * Upload a JSONL input file for the Batch API. Returns the file ID.
+ */
+export async function uploadBatchFile(
+  jsonl: string,
+  fileName: string,
+): Promise<string> {
+  const boundary = `----ai-tagger-${Zotero.Utilities.randomString(16)}`;
+  const body =
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="purpose"\r\n\r\nbatch\r\n` +
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="file"; filename="${fileName}"\r\n` +
+    `Content-Type: application/jsonl\r\n\r\n` +
+    `${jsonl}\r\n` +
+    `--${boundary}--\r\n`;
+
+  const response = await batchAPIRequest("/files", {
+    method: "POST",
+    headers: { "Content-Type": `multipart/form-data; boundary=${boundary}` },
+    body,
+  });
+  const file: unknown = await response.json();
+  if (!isRemoteFile(file)) {
+    throw new Error("The provider returned no file ID for the upload");
   }
+  return file.id;
+}
+
+/**
+ * Start a Batch API job for an uploaded input file.
+ */
+export async function createBatch(
+  inputFileID: string,
+): Promise<RemoteBatchStatus> {
+  const response = await batchAPIRequest("/batches", {
+    method: "POST",
+    body: JSON.stringify({
+      input_file_id: inputFileID,
+      endpoint: BATCH_ENDPOINT,
+      completion_window: "24h",
+    }),
+  });
+  return toBatchStatus(await response.json());
+}
 
-  const result = (await response.json()) as unknown as ChatCompletionResponse;
-  return result.model || model;
+/**
+ * Get the current status of a Batch API job.
+ */
+export async function getBatch(
+  batchID: string,
+  signal?: AbortSignal,
+): Promise<RemoteBatchStatus> {
+  const response = await batchAPIRequest(
+    `/batches/${encodeURIComponent(batchID)}`,
+    { method: "GET" },
+    signal,
+  );
+  return toBatchStatus(await response.json());
+}
+
+/**
+ * Ask the provider to cancel a Batch API job.
+ */
+export async function cancelBatch(batchID: string): Promise<void> {
+  await batchAPIRequest(`/batches/${encodeURIComponent(batchID)}/cancel`, {
+    method: "POST",
+  });
+}
+
+/**
+ * Download the content of a file, e.g. a batch's output file.
+ */
+export async function downloadFile(
+  fileID: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await batchAPIRequest(
+    `/files/${encodeURIComponent(fileID)}/content`,
+    { method: "GET" },
+    signal,
+  );
+  return await response.text();
+}
+
+/**
+ * Convert a chat response body from a batch output file.
+ */
+export function parseChatResponse(data: unknown): ChatCompletionResponse {
+  return getAdapter().parseResponse(data);
 }
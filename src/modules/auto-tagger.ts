@@ -0,0 +1,139 @@
+import { tagItems } from "./menu";
+import { getPref } from "./preferences";
+
+const OBSERVER_ID = "ai-tagger-auto-tag";
+
+/** How often to check whether an imported item's attachment has arrived. */
+const ATTACHMENT_POLL_INTERVAL = 1000;
+
+let observerID: string | null = null;
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+const pendingIDs = new Set<number>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check whether an item has a PDF or HTML snapshot attachment whose file
+ * exists on disk.
+ */
+async function hasReadyAttachment(item: Zotero.Item): Promise<boolean> {
+  for (const id of item.getAttachments()) {
+    const attachment = Zotero.Items.get(id) as Zotero.Item;
+    if (
+      !attachment.isPDFAttachment() &&
+      (attachment as any).attachmentMIMEType !== "text/html"
+    ) {
+      continue;
+    }
+    if (await attachment.fileExists()) return true;
+  }
+  return false;
+}
+
+/**
+ * Wait until an item's PDF or snapshot has been saved, or the timeout expires.
+ * The Connector creates the parent item first and downloads files afterwards.
+ */
+async function waitForAttachment(
+  item: Zotero.Item,
+  timeoutMs: number,
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await hasReadyAttachment(item)) return;
+    await sleep(ATTACHMENT_POLL_INTERVAL);
+  }
+  Zotero.debug(
+    `[AI Tagger] No attachment for item ${item.id} after ${timeoutMs}ms, tagging from metadata`,
+  );
+}
+
+/**
+ * Tag all queued items once the debounce window has passed.
+ */
+async function flushQueue(): Promise<void> {
+  debounceTimer = null;
+
+  const ids = [...pendingIDs];
+  pendingIDs.clear();
+
+  const items = ids
+    .map((id) => Zotero.Items.get(id) as Zotero.Item)
+    .filter((item) => item && !item.deleted && item.isRegularItem());
+  if (items.length === 0) return;
+
+  const win = Zotero.getMainWindow();
+  if (!win) return;
+
+  const waitMs = ((getPref("autoTagWaitSeconds") as number) || 0) * 1000;
+  if (getPref("includeFullText") && waitMs > 0) {
+    await Promise.all(items.map((item) => waitForAttachment(item, waitMs)));
+  }
+
+  Zotero.debug(`[AI Tagger] Auto-tagging ${items.length} new item(s)`);
+  // Attachments were waited for above, as long as the user configured
+  await tagItems(win, items, {
+    label: `${items.length} imported items`,
+    waitForAttachments: false,
+  });
+}
+
+/**
+ * Queue newly added items and (re)start the debounce timer.
+ */
+function enqueue(ids: number[]): void {
+  for (const id of ids) {
+    const item = Zotero.Items.get(id) as Zotero.Item;
+    if (!item || !item.isRegularItem() || !item.isTopLevelItem()) continue;
+    if (item.isFeedItem) continue;
+    pendingIDs.add(id);
+  }
+  if (pendingIDs.size === 0) return;
+
+  if (debounceTimer) clearTimeout(debounceTimer);
+  const delay = (getPref("autoTagDelay") as number) || 0;
+  debounceTimer = setTimeout(() => {
+    flushQueue().catch((e) =>
+      Zotero.debug(`[AI Tagger] Auto-tag failed: ${e}`),
+    );
+  }, delay);
+}
+
+/**
+ * Register the Zotero.Notifier observer that tags newly imported items.
+ * Items are only queued while the auto-tag preference is enabled.
+ */
+export function registerAutoTagger(): void {
+  if (observerID) return;
+
+  observerID = Zotero.Notifier.registerObserver(
+    {
+      notify: (event, type, ids) => {
+        if (event !== "add" || type !== "item") return;
+        if (!getPref("autoTagOnImport")) return;
+        enqueue(ids as number[]);
+      },
+    },
+    ["item"],
+    OBSERVER_ID,
+  );
+
+  Zotero.debug("[AI Tagger] Auto-tag observer registered");
+}
+
+/**
+ * Unregister the notifier observer and drop any queued items.
+ */
+export function unregisterAutoTagger(): void {
+  if (observerID) {
+    Zotero.Notifier.unregisterObserver(observerID);
+    observerID = null;
+  }
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = null;
+  }
+  pendingIDs.clear();
+}
@@ -0,0 +1,151 @@
+import type { TokenUsage } from "./cost-estimator";
+import { readJSON, writeJSON } from "./storage";
+import type { TagAnswer, TagResult } from "./tag-engine";
+
+const JOBS_FILE = "jobs.json";
+
+/** Writes are coalesced so a batch run doesn't rewrite the file per item. */
+const SAVE_DELAY = 2000;
+
+/**
+ * - running: being processed, or interrupted if no batch in this session owns it
+ * - paused: stopped by the user or the budget cap, waiting to be resumed
+ */
+export type JobStatus = "running" | "paused";
+
+/** Settings needed to resume a job the way it was started. */
+export interface JobSettings {
+  bypassCache?: boolean;
+  dryRun?: boolean;
+  confirmationMode: boolean;
+}
+
+/** A job's requests sent to the provider's Batch API (offline mode). */
+export interface RemoteBatch {
+  batchID: string;
+  inputFileID: string;
+  /** Last status reported by the provider */
+  status: string;
+  /** Item ID for each request's custom_id */
+  requests: Record<string, number>;
+  /** Items that couldn't be sent, with the reason */
+  errors: Record<number, string>;
+  /** Answers by item ID, once the provider has finished */
+  answers?: Record<number, TagAnswer>;
+}
+
+export interface BatchJob {
+  jobID: string;
+  /** Journal run that the job's tags are recorded under */
+  runID: string;
+  /** Shown in the job manager, e.g. the collection name */
+  label: string;
+  createdAt: string;
+  updatedAt: string;
+  status: JobStatus;
+  settings: JobSettings;
+  itemIDs: number[];
+  completedIDs: number[];
+  results: TagResult[];
+  usage: TokenUsage;
+  /** Set for jobs run through the Batch API */
+  remote?: RemoteBatch;
+}
+
+let jobs: Map<string, BatchJob> | null = null;
+let loading: Promise<Map<string, BatchJob>> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Load the jobs file into memory once per session.
+ */
+function load(): Promise<Map<string, BatchJob>> {
+  if (jobs) return Promise.resolve(jobs);
+  if (!loading) {
+    loading = readJSON<BatchJob[]>(JOBS_FILE, []).then((data) => {
+      jobs = new Map(data.map((job) => [job.jobID, job]));
+      loading = null;
+      return jobs;
+    });
+  }
+  return loading;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    if (!jobs) return;
+    writeJSON(JOBS_FILE, [...jobs.values()]).catch((e) =>
+      Zotero.debug(`[AI Tagger] Failed to save batch jobs: ${e}`),
+    );
+  }, SAVE_DELAY);
+}
+
+/**
+ * Write any pending changes to disk immediately.
+ */
+export async function flushJobs(): Promise<void> {
+  if (!saveTimer) return;
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  if (jobs) await writeJSON(JOBS_FILE, [...jobs.values()]);
+}
+
+/**
+ * Create and persist a new job.
+ */
+export async function createJob(
+  label: string,
+  itemIDs: number[],
+  runID: string,
+  settings: JobSettings,
+  remote?: RemoteBatch,
+): Promise<BatchJob> {
+  const now = new Date().toISOString();
+  const job: BatchJob = {
+    jobID: `${Date.now().toString(36)}-${Zotero.Utilities.randomString(6)}`,
+    runID,
+    label,
+    createdAt: now,
+    updatedAt: now,
+    status: "running",
+    settings,
+    itemIDs,
+    completedIDs: [],
+    results: [],
+    usage: { promptTokens: 0, completionTokens: 0 },
+    remote,
+  };
+  (await load()).set(job.jobID, job);
+  scheduleSave();
+  await flushJobs();
+  return job;
+}
+
+/**
+ * Save a job's progress. Pass `immediate` to write it to disk right away.
+ */
+export async function saveJob(job: BatchJob, immediate = false): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  (await load()).set(job.jobID, job);
+  scheduleSave();
+  if (immediate) await flushJobs();
+}
+
+/**
+ * Delete a job.
+ */
+export async function removeJob(jobID: string): Promise<void> {
+  (await load()).delete(jobID);
+  scheduleSave();
+  await flushJobs();
+}
+
+/**
+ * List saved jobs, newest first.
+ */
+export async function listJobs(): Promise<BatchJob[]> {
+  const all = [...(await load()).values()];
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -1,15 +1,115 @@
-import { suggestTags, applyTags, type TagResult } from "./tag-engine";
+import {
+  suggestTags,
+  applyTags,
+  estimateItemUsage,
+  getResultCost,
+  partitionByConfidence,
+  type TagResult,
+} from "./tag-engine";
 import { getPref } from "./preferences";
+import { createRun, reopenRun } from "./run-journal";
+import {
+  addCost,
+  addUsage,
+  computeCost,
+  type TokenUsage,
+} from "./cost-estimator";
+import { createJob, removeJob, saveJob, type BatchJob } from "./batch-jobs";
+import { markProcessed } from "./processed-items";
 
 export interface BatchProgress {
+  jobID: string;
+  runID: string;
   total: number;
   current: number;
   results: TagResult[];
   cancelled: boolean;
+  /** True if the batch was paused and its job kept for resuming */
+  paused: boolean;
+  /** Actual tokens used so far */
+  usage: TokenUsage;
+  /** Actual cost so far, or null if the model isn't priced */
+  cost: number | null;
+  /** True if the batch was paused at the budget cap */
+  budgetReached: boolean;
+}
+
+export interface BatchEstimate {
+  items: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Items answered from the response cache */
+  cached: number;
+  /** Estimated cost, or null if the model isn't priced */
+  cost: number | null;
+}
+
+export interface BudgetCap {
+  /** Max total tokens, 0 for no limit */
+  tokens: number;
+  /** Max cost, 0 for no limit */
+  cost: number;
+}
+
+export interface BatchHandle {
+  /** Stop the batch and discard its job */
+  cancel: () => void;
+  /** Stop the batch and keep its job for resuming */
+  pause: () => void;
+  promise: Promise<BatchProgress>;
 }
 
 export type ProgressCallback = (progress: BatchProgress) => void;
 
+/**
+ * User decision from the confirmation dialog.
+ * Tags above the auto-apply threshold are applied whatever the decision,
+ * unless the batch is cancelled.
+ * - apply: apply `tags` to this item
+ * - skip: apply none of the tags under review
+ * - applyAll: apply `tags` to this item and all suggestions to the remaining items
+ * - cancel: leave this item untouched and cancel the rest of the batch
+ */
+export interface ConfirmDecision {
+  action: "apply" | "skip" | "applyAll" | "cancel";
+  tags: string[];
+}
+
+/**
+ * Ask the user to confirm tags. `result.suggestedTags` holds only the tags
+ * under review; `autoTags` are the ones being applied without review.
+ */
+export type ConfirmFn = (
+  result: TagResult,
+  inBatch: boolean,
+  autoTags: string[],
+) => Promise<ConfirmDecision>;
+
+export interface BatchOptions {
+  /** Ignore the response cache and always call the API */
+  bypassCache?: boolean;
+  /** Collect suggestions without confirming or applying any tags */
+  dryRun?: boolean;
+  /**
+   * Confirm every tag (confirmation mode), not only those below the
+   * auto-apply threshold
+   */
+  confirmAll?: boolean;
+  /** Name shown in the job manager */
+  label?: string;
+  /** Wait for attachments of items that have none yet (default true) */
+  waitForAttachments?: boolean;
+  /** Saved job to resume */
+  job?: BatchJob;
+  /**
+   * Called when actual usage reaches the budget cap, with new items on hold.
+   * Resolve true to continue past the cap, false to pause the batch.
+   * Without it the batch is paused at the cap.
+   */
+  onBudgetReached?: (progress: BatchProgress) => Promise<boolean>;
+}
+
 /**
  * Simple semaphore for concurrency control.
  */
@@ -39,45 +139,206 @@ class Semaphore {
   }
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// Batches running in this session, by job ID
+const activeBatches = new Map<string, Pick<BatchHandle, "cancel" | "pause">>();
+
+/**
+ * Read the budget cap from preferences.
+ */
+export function getBudgetCap(): BudgetCap {
+  return {
+    tokens: (getPref("budgetTokens") as number) || 0,
+    cost: parseFloat(getPref("budgetCost") as string) || 0,
+  };
+}
+
+function isOverBudget(progress: BatchProgress, cap: BudgetCap): boolean {
+  const tokens = progress.usage.promptTokens + progress.usage.completionTokens;
+  if (cap.tokens > 0 && tokens >= cap.tokens) return true;
+  if (cap.cost > 0 && progress.cost !== null && progress.cost >= cap.cost) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Estimate the requests, tokens and cost of tagging these items, using the
+ * same prompts and extracted text the run will send.
+ *
+ * @param items - Items to estimate
+ * @param options - Per-run options (bypassing the cache makes cached items count)
+ * @param onProgress - Called with the number of items estimated so far
+ */
+export async function estimateBatch(
+  items: Zotero.Item[],
+  options: BatchOptions = {},
+  onProgress?: (current: number, total: number) => void,
+): Promise<BatchEstimate> {
+  const estimate: BatchEstimate = {
+    items: items.length,
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cached: 0,
+    cost: 0,
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      const item = await estimateItemUsage(items[i], {
+        bypassCache: options.bypassCache,
+      });
+      estimate.requests += item.requests;
+      estimate.inputTokens += item.inputTokens;
+      estimate.outputTokens += item.outputTokens;
+      if (item.cached) estimate.cached++;
+      // Each item is priced with its own profile's model
+      estimate.cost = addCost(
+        estimate.cost,
+        computeCost(
+          {
+            promptTokens: item.inputTokens,
+            completionTokens: item.outputTokens,
+          },
+          item.model || "",
+          item.provider || "",
+        ),
+      );
+    } catch (e) {
+      Zotero.debug(`[AI Tagger] Estimate failed for item ${items[i].id}: ${e}`);
+    }
+    onProgress?.(i + 1, items.length);
+  }
+  return estimate;
 }
 
 /**
  * Process multiple Zotero items concurrently with AI tagging.
  *
+ * Every batch is saved to disk as a job, so it can be resumed after a pause
+ * or a restart. Pass `options.job` to resume a saved job; items it has
+ * already completed are skipped. A job with Batch API answers (see
+ * offline-batch) uses them instead of sending requests.
+ *
  * @param items - Array of Zotero items to tag
  * @param onProgress - Callback for progress updates
  * @param confirmFn - Optional function to let user confirm/select tags per item.
- *                    If provided, it receives the TagResult and returns the tags to apply.
- *                    If null, tags are applied automatically.
- * @returns Object with cancel() method and promise for final results
+ *                    It receives the tags under review (all tags with
+ *                    `options.confirmAll`, else those below the auto-apply
+ *                    threshold) and returns a ConfirmDecision.
+ *                    If null, tags under review are skipped.
+ *                    Not called in dry-run mode.
+ * @param options - Per-run options
+ * @returns Batch handle with cancel() and pause() methods and a promise for final results
  */
 export function processBatch(
   items: Zotero.Item[],
   onProgress: ProgressCallback,
-  confirmFn?: ((result: TagResult) => Promise<string[] | null>) | null,
-): { cancel: () => void; promise: Promise<BatchProgress> } {
+  confirmFn?: ConfirmFn | null,
+  options: BatchOptions = {},
+): BatchHandle {
+  // API pacing is global (see rate-limiter); this only bounds how many
+  // items a batch prepares at once
   const concurrency = (getPref("concurrency") as number) || 3;
-  const interval = (getPref("requestInterval") as number) || 1000;
+  const budget = getBudgetCap();
+  const resumed = options.job;
 
   const semaphore = new Semaphore(concurrency);
+  // Only one confirmation dialog may be open at a time
+  const confirmLock = new Semaphore(1);
+  let applyAll = false;
   let cancelled = false;
-  let requestCount = 0;
+  // Aborts in-flight requests as soon as the batch is cancelled or paused
+  const controller = new AbortController();
+  let paused = false;
+  let budgetLifted = false;
+  // While set, new items wait for the user's budget decision
+  let budgetGate: Promise<void> | null = null;
+
+  const completed = new Set(resumed?.completedIDs || []);
+  const pending = items.filter((item) => !completed.has(item.id));
 
   const progress: BatchProgress = {
-    total: items.length,
-    current: 0,
-    results: [],
+    jobID: resumed?.jobID || "",
+    runID: resumed?.runID || "",
+    total: resumed ? resumed.itemIDs.length : items.length,
+    current: resumed ? resumed.completedIDs.length : 0,
+    results: resumed ? [...resumed.results] : [],
     cancelled: false,
+    paused: false,
+    usage: resumed
+      ? { ...resumed.usage }
+      : { promptTokens: 0, completionTokens: 0 },
+    cost: 0,
+    budgetReached: false,
   };
+  progress.cost = progress.results.reduce(
+    (total: number | null, result) => addCost(total, getResultCost(result)),
+    0,
+  );
 
   const cancel = () => {
     cancelled = true;
     progress.cancelled = true;
+    controller.abort();
+  };
+
+  const pause = () => {
+    cancelled = true;
+    paused = true;
+    progress.paused = true;
+    controller.abort();
+  };
+
+  /**
+   * Hold new items once actual usage reaches the cap.
+   * Requests already in flight still complete, so the cap can be overshot
+   * by up to `concurrency - 1` items.
+   */
+  const checkBudget = async () => {
+    if (budgetGate) return budgetGate;
+    if (budgetLifted || !isOverBudget(progress, budget)) return;
+
+    Zotero.debug("[AI Tagger] Budget cap reached, pausing batch");
+    budgetGate = (async () => {
+      const keepGoing = options.onBudgetReached
+        ? await options.onBudgetReached({ ...progress })
+        : false;
+      if (keepGoing) {
+        budgetLifted = true;
+      } else {
+        // Keep the job so it can be resumed once there is budget again
+        progress.budgetReached = true;
+        pause();
+      }
+      budgetGate = null;
+    })();
+    return budgetGate;
   };
 
   const promise = (async (): Promise<BatchProgress> => {
+    const job =
+      resumed ||
+      (await createJob(
+        options.label || `${items.length} items`,
+        items.map((item) => item.id),
+        createRun().runID,
+        {
+          bypassCache: options.bypassCache,
+          dryRun: options.dryRun,
+          confirmationMode: !!options.confirmAll,
+        },
+      ));
+    const run = await reopenRun(job.runID);
+    progress.jobID = job.jobID;
+    progress.runID = job.runID;
+
+    job.status = "running";
+    job.results = progress.results;
+    job.usage = progress.usage;
+    await saveJob(job, true);
+    activeBatches.set(job.jobID, { cancel, pause });
+
     const processItem = async (item: Zotero.Item) => {
       if (cancelled) return;
 
@@ -85,34 +346,83 @@ export function processBatch(
       try {
         if (cancelled) return;
 
-        // Rate-limit: wait between requests
-        if (requestCount > 0 && interval > 0) {
-          await sleep(interval);
-        }
-        requestCount++;
-
+        // Batch API answers are already paid for
+        if (!job.remote) await checkBudget();
         if (cancelled) return;
 
         // Get tag suggestions
-        const result = await suggestTags(item);
+        const result = await suggestTags(item, {
+          bypassCache: options.bypassCache,
+          waitForAttachments: options.waitForAttachments,
+          signal: controller.signal,
+          answer: job.remote?.answers?.[item.id],
+        });
+
+        addUsage(progress.usage, result.usage);
+        progress.cost = addCost(progress.cost, getResultCost(result));
 
         if (cancelled) return;
 
         // Apply tags (with optional confirmation)
-        if (!result.error && result.suggestedTags.length > 0) {
-          let tagsToApply: string[] | null = result.suggestedTags;
+        if (
+          !options.dryRun &&
+          !result.error &&
+          result.suggestedTags.length > 0
+        ) {
+          const { autoTags, reviewTags } = partitionByConfidence(
+            result,
+            !!options.confirmAll,
+          );
+          let tagsToApply: string[] = autoTags;
 
-          if (confirmFn) {
-            tagsToApply = await confirmFn(result);
+          if (reviewTags.length > 0 && applyAll) {
+            tagsToApply = [...autoTags, ...reviewTags];
+          } else if (reviewTags.length > 0 && confirmFn) {
+            await confirmLock.acquire();
+            try {
+              if (cancelled) return;
+              if (applyAll) {
+                tagsToApply = [...autoTags, ...reviewTags];
+              } else {
+                const decision = await confirmFn(
+                  { ...result, suggestedTags: reviewTags },
+                  true,
+                  autoTags,
+                );
+                if (decision.action === "cancel") cancel();
+                if (decision.action === "applyAll") applyAll = true;
+                if (
+                  decision.action === "apply" ||
+                  decision.action === "applyAll"
+                ) {
+                  tagsToApply = [...autoTags, ...decision.tags];
+                }
+              }
+            } finally {
+              confirmLock.release();
+            }
           }
 
-          if (tagsToApply && tagsToApply.length > 0) {
-            await applyTags(result.itemID, tagsToApply);
-            result.appliedTags = tagsToApply;
+          if (cancelled) return;
+          if (tagsToApply.length > 0) {
+            result.appliedTags = await applyTags(
+              result.itemID,
+              tagsToApply,
+              result.model || "",
+              run,
+            );
           }
         }
 
+        // Only once tags were applied or rejected, so a cancelled or failed
+        // item is picked up again by the next run
+        if (!options.dryRun && !result.error) {
+          await markProcessed(item, run, result.model || "");
+        }
+
         progress.results.push(result);
+        job.completedIDs.push(item.id);
+        await saveJob(job);
       } finally {
         semaphore.release();
         progress.current++;
@@ -120,11 +430,32 @@ export function processBatch(
       }
     };
 
-    // Process all items concurrently (semaphore controls parallelism)
-    await Promise.all(items.map((item) => processItem(item)));
+    try {
+      // Process all items concurrently (semaphore controls parallelism)
+      await Promise.all(pending.map((item) => processItem(item)));
+    } finally {
+      activeBatches.delete(job.jobID);
+      if (paused) {
+        job.status = "paused";
+        await saveJob(job, true);
+      } else {
+        await removeJob(job.jobID);
+      }
+    }
 
+    // Count only finished items, so a resumed job picks up where this stopped
+    progress.current = job.completedIDs.length;
     return progress;
   })();
 
-  return { cancel, promise };
+  return { cancel, pause, promise };
+}
+
+/**
+ * Get the batch currently processing a job in this session, if any.
+ */
+export function getActiveBatch(
+  jobID: string,
+): Pick<BatchHandle, "cancel" | "pause"> | undefined {
+  return activeBatches.get(jobID);
 }
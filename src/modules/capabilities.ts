@@ -0,0 +1,130 @@
+import type { Connection } from "./ai-service";
+import type { StructuredOutputMode } from "./providers";
+import { readJSON, writeJSON } from "./storage";
+
+const CAPABILITIES_FILE = "capabilities.json";
+
+/** A failed probe is retried after this long; until then the fallback is used. */
+const FAILED_PROBE_TTL = 60 * 60 * 1000;
+
+/** Models are probed again after this long, in case the provider changed. */
+const PROBE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/** What a provider's model behind a base URL was found to support. */
+export interface ProviderCapabilities {
+  jsonSchema: boolean;
+  jsonObject: boolean;
+  tools: boolean;
+  maxTokensParam: "max_tokens" | "max_completion_tokens";
+  probedAt: string;
+  /** True if the probe couldn't run and these are assumed */
+  failed?: boolean;
+}
+
+/** Identifies the probed model. */
+export type CapabilitiesTarget = Pick<
+  Connection,
+  "provider" | "baseURL" | "model"
+>;
+
+let capabilities: Record<string, ProviderCapabilities> | null = null;
+
+/**
+ * Cache key for a provider's model behind a base URL.
+ */
+export function capabilitiesKey(target: CapabilitiesTarget): string {
+  return `${target.provider}|${target.baseURL.replace(/\/+$/, "")}|${target.model}`;
+}
+
+async function load(): Promise<Record<string, ProviderCapabilities>> {
+  if (!capabilities) {
+    capabilities = await readJSON<Record<string, ProviderCapabilities>>(
+      CAPABILITIES_FILE,
+      {},
+    );
+  }
+  return capabilities;
+}
+
+/**
+ * Get the probed capabilities for a provider's model, or null if they
+ * haven't been probed yet or are due to be probed again.
+ */
+export async function getCachedCapabilities(
+  target: CapabilitiesTarget,
+): Promise<ProviderCapabilities | null> {
+  const cached = (await load())[capabilitiesKey(target)];
+  if (!cached) return null;
+  const age = Date.now() - Date.parse(cached.probedAt);
+  // Entries without a valid date are probed again too
+  if (!(age <= (cached.failed ? FAILED_PROBE_TTL : PROBE_TTL))) return null;
+  return cached;
+}
+
+/**
+ * Store probed capabilities for a provider's model.
+ */
+export async function setCachedCapabilities(
+  target: CapabilitiesTarget,
+  probed: ProviderCapabilities,
+): Promise<void> {
+  const all = await load();
+  all[capabilitiesKey(target)] = probed;
+  await writeJSON(CAPABILITIES_FILE, all);
+}
+
+/**
+ * Forget a provider's model's capabilities, so the next request probes
+ * them again.
+ */
+export async function removeCachedCapabilities(
+  target: CapabilitiesTarget,
+): Promise<void> {
+  const all = await load();
+  const key = capabilitiesKey(target);
+  if (!(key in all)) return;
+  delete all[key];
+  await writeJSON(CAPABILITIES_FILE, all);
+}
+
+/**
+ * Capabilities to assume when a probe couldn't run: prompt-based JSON
+ * works everywhere, and `mode` is one every model of the provider
+ * supports, if any.
+ */
+export function fallbackCapabilities(
+  mode: StructuredOutputMode = "prompt",
+): ProviderCapabilities {
+  return {
+    jsonSchema: mode === "json_schema",
+    jsonObject: mode === "json_object",
+    tools: mode === "tools",
+    maxTokensParam: "max_tokens",
+    probedAt: new Date().toISOString(),
+    failed: true,
+  };
+}
+
+/**
+ * Pick the most reliable structured output mode the capabilities allow.
+ */
+export function chooseStructuredOutput(
+  probed: ProviderCapabilities,
+): StructuredOutputMode {
+  if (probed.jsonSchema) return "json_schema";
+  if (probed.tools) return "tools";
+  if (probed.jsonObject) return "json_object";
+  return "prompt";
+}
+
+/**
+ * Describe capabilities for the preferences panel, e.g. "JSON schema, tools".
+ */
+export function describeCapabilities(probed: ProviderCapabilities): string {
+  const supported = [
+    probed.jsonSchema && "JSON schema",
+    probed.tools && "tool calling",
+    probed.jsonObject && "JSON mode",
+  ].filter(Boolean);
+  return supported.length > 0 ? supported.join(", ") : "prompt-based JSON";
+}
@@ -0,0 +1,129 @@
+import type { ChatCompletionResponse, ChatMessage } from "./ai-service";
+import { getPref } from "./preferences";
+
+/** Rough characters-per-token ratio for English text. */
+export const CHARS_PER_TOKEN = 4;
+
+/** Typical size of a tag-suggestion answer; max_tokens is the upper bound. */
+export const ESTIMATED_COMPLETION_TOKENS = 200;
+
+/** Per-message overhead of the chat format. */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Price in the price table's currency per 1M tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Estimate the token count of a piece of text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the prompt tokens of a list of chat messages.
+ */
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS,
+    0,
+  );
+}
+
+/**
+ * Get token usage from a response, estimating it if the provider didn't report any.
+ */
+export function getUsage(
+  messages: ChatMessage[],
+  response: ChatCompletionResponse,
+): TokenUsage {
+  if (response.usage) {
+    return {
+      promptTokens: response.usage.prompt_tokens,
+      completionTokens: response.usage.completion_tokens,
+    };
+  }
+  return {
+    promptTokens: estimateMessagesTokens(messages),
+    completionTokens: estimateTokens(
+      response.choices[0]?.message.content || "",
+    ),
+  };
+}
+
+/**
+ * Add usage into a running total.
+ */
+export function addUsage(total: TokenUsage, usage?: TokenUsage): void {
+  if (!usage) return;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+}
+
+/**
+ * Look up a model's price in the price table preference.
+ * Falls back to the longest matching prefix, so "gpt-4o-2024-08-06" uses "gpt-4o".
+ * Returns null if the model isn't priced.
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  let table: Record<string, ModelPrice>;
+  try {
+    table = JSON.parse((getPref("modelPrices") as string) || "{}");
+  } catch (e) {
+    Zotero.debug(`[AI Tagger] Invalid model price table: ${e}`);
+    return null;
+  }
+
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : null;
+}
+
+/**
+ * Compute the cost of some usage with a provider's model, or null if the
+ * model isn't priced. Local models, and no usage, are free.
+ */
+export function computeCost(
+  usage: TokenUsage,
+  model: string,
+  provider: string,
+): number | null {
+  if (provider === "local") return 0;
+  if (usage.promptTokens === 0 && usage.completionTokens === 0) return 0;
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Add a cost into a running total. The total is unknown once any part is.
+ */
+export function addCost(
+  total: number | null,
+  cost: number | null,
+): number | null {
+  return total === null || cost === null ? null : total + cost;
+}
+
+/**
+ * Format a cost for display.
+ */
+export function formatCost(cost: number | null): string {
+  return cost === null
+    ? "unknown (model not in price table)"
+    : `$${cost.toFixed(4)}`;
+}
@@ -0,0 +1,392 @@
+/**
+ * Evaluation of suggestion quality against human tags: tag a sample of
+ * already-tagged items with their tags hidden, without applying anything,
+ * and score the suggestions against the tags people gave them. Several
+ * settings can be evaluated on the same sample to compare them.
+ */
+
+import { addCost, addUsage, type TokenUsage } from "./cost-estimator";
+import { getCuratedTags } from "./library-index";
+import { getPref } from "./preferences";
+import type { ResolvedProfile } from "./profiles";
+import { escapeCSV, pickFile } from "./suggestion-report";
+import { getResultCost, suggestTags } from "./tag-engine";
+
+const EVALUATION_VERSION = 1;
+
+/** Tags are joined with this in CSV columns. */
+const CSV_TAG_SEPARATOR = "; ";
+
+const CSV_COLUMNS = [
+  "setting",
+  "scope",
+  "name",
+  "item_key",
+  "expected",
+  "suggested",
+  "true_positives",
+  "false_positives",
+  "false_negatives",
+  "precision",
+  "recall",
+  "f1",
+  "misses",
+  "false_positive_tags",
+  "error",
+] as const;
+
+/** Settings to evaluate. */
+export interface EvaluationVariant {
+  /** Shown in the results, e.g. "Profile: Ecology" */
+  label: string;
+  /** Model shown with the results; each item is priced by its own */
+  model: string;
+  /** Profile to tag with; unset uses each item's own profile */
+  profile?: ResolvedProfile;
+}
+
+/** Precision, recall and F1 from true/false positive and negative counts. */
+export interface Scores {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface TagScores extends Scores {
+  tag: string;
+}
+
+export interface EvaluatedItem {
+  libraryID: number;
+  itemKey: string;
+  title: string;
+  /** The item's human tags */
+  expected: string[];
+  suggested: string[];
+  /** Expected tags that weren't suggested */
+  misses: string[];
+  /** Suggested tags that weren't expected */
+  falsePositives: string[];
+  error?: string;
+}
+
+export interface VariantResult {
+  label: string;
+  model: string;
+  /** Over all suggestions of all items without errors (micro-average) */
+  overall: Scores;
+  /** Per tag, most expected first */
+  tags: TagScores[];
+  items: EvaluatedItem[];
+  /** Items that couldn't be tagged; not scored */
+  errors: number;
+  usage: TokenUsage;
+  /** Cost, or null if the model isn't priced */
+  cost: number | null;
+}
+
+export interface EvaluationReport {
+  version: number;
+  createdAt: string;
+  /** Items in the sample */
+  items: number;
+  variants: VariantResult[];
+}
+
+/**
+ * Called after each item with the number done and the total, across all
+ * variants.
+ */
+export type EvaluationProgress = (current: number, total: number) => void;
+
+/**
+ * Pick up to `size` random items that have human tags.
+ */
+export function sampleTaggedItems(
+  items: Zotero.Item[],
+  size: number,
+): Zotero.Item[] {
+  const tagged = items.filter((item) => getCuratedTags(item).length > 0);
+  // Fisher–Yates, stopping once the sample is drawn
+  for (let i = 0; i < Math.min(size, tagged.length); i++) {
+    const j = i + Math.floor(Math.random() * (tagged.length - i));
+    [tagged[i], tagged[j]] = [tagged[j], tagged[i]];
+  }
+  return tagged.slice(0, size);
+}
+
+function computeScores(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number,
+): Scores {
+  const precision =
+    truePositives + falsePositives > 0
+      ? truePositives / (truePositives + falsePositives)
+      : 0;
+  const recall =
+    truePositives + falseNegatives > 0
+      ? truePositives / (truePositives + falseNegatives)
+      : 0;
+  const f1 =
+    precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : 0;
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1,
+  };
+}
+
+/**
+ * Score the items of a variant overall and per tag. Items with errors
+ * are left out.
+ */
+function scoreItems(items: EvaluatedItem[]): {
+  overall: Scores;
+  tags: TagScores[];
+} {
+  const counts = new Map<string, { tp: number; fp: number; fn: number }>();
+  const count = (tag: string) => {
+    let c = counts.get(tag);
+    if (!c) counts.set(tag, (c = { tp: 0, fp: 0, fn: 0 }));
+    return c;
+  };
+
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const item of items) {
+    if (item.error) continue;
+    for (const tag of item.expected) {
+      if (item.misses.includes(tag)) {
+        count(tag).fn++;
+        fn++;
+      } else {
+        count(tag).tp++;
+        tp++;
+      }
+    }
+    for (const tag of item.falsePositives) {
+      count(tag).fp++;
+      fp++;
+    }
+  }
+
+  const tags = [...counts]
+    .map(([tag, c]) => ({ tag, ...computeScores(c.tp, c.fp, c.fn) }))
+    .sort(
+      (a, b) =>
+        b.truePositives +
+          b.falseNegatives -
+          (a.truePositives + a.falseNegatives) || a.tag.localeCompare(b.tag),
+    );
+  return { overall: computeScores(tp, fp, fn), tags };
+}
+
+/**
+ * Tag one item with its tags hidden and compare the suggestions with them.
+ * Tags are compared case-insensitively.
+ */
+async function evaluateItem(
+  item: Zotero.Item,
+  variant: EvaluationVariant,
+  signal: AbortSignal,
+): Promise<{
+  evaluated: EvaluatedItem;
+  usage?: TokenUsage;
+  cost: number | null;
+}> {
+  const expected = getCuratedTags(item);
+  const result = await suggestTags(item, {
+    bypassCache: true,
+    hideTags: true,
+    profile: variant.profile,
+    signal,
+  });
+
+  const normalize = (tag: string) => tag.toLowerCase();
+  const expectedSet = new Set(expected.map(normalize));
+  const suggestedSet = new Set(result.suggestedTags.map(normalize));
+  return {
+    evaluated: {
+      libraryID: item.libraryID,
+      itemKey: item.key,
+      title: result.title,
+      expected,
+      suggested: result.suggestedTags,
+      misses: expected.filter((tag) => !suggestedSet.has(normalize(tag))),
+      falsePositives: result.suggestedTags.filter(
+        (tag) => !expectedSet.has(normalize(tag)),
+      ),
+      error: result.error,
+    },
+    usage: result.usage,
+    cost: getResultCost(result),
+  };
+}
+
+/**
+ * Evaluate each variant on the same items. Nothing is applied to the items,
+ * and the response cache is bypassed so every setting gets a fresh answer.
+ * Items are prepared a few at a time, by the "concurrency" preference;
+ * requests are paced by the rate limiter as usual.
+ */
+export async function evaluate(
+  items: Zotero.Item[],
+  variants: EvaluationVariant[],
+  onProgress?: EvaluationProgress,
+  signal: AbortSignal = new AbortController().signal,
+): Promise<EvaluationReport> {
+  const concurrency = (getPref("concurrency") as number) || 3;
+  const total = items.length * variants.length;
+  let current = 0;
+  const results: VariantResult[] = [];
+
+  for (const variant of variants) {
+    const evaluated: EvaluatedItem[] = new Array(items.length);
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    let cost: number | null = 0;
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length && !signal.aborted) {
+        const index = next++;
+        const outcome = await evaluateItem(items[index], variant, signal);
+        evaluated[index] = outcome.evaluated;
+        addUsage(usage, outcome.usage);
+        cost = addCost(cost, outcome.cost);
+        onProgress?.(++current, total);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, items.length) }, worker),
+    );
+    if (signal.aborted) throw new Error("Evaluation cancelled");
+
+    const { overall, tags } = scoreItems(evaluated);
+    results.push({
+      label: variant.label,
+      model: variant.model,
+      overall,
+      tags,
+      items: evaluated,
+      errors: evaluated.filter((e) => e.error).length,
+      usage,
+      cost,
+    });
+    Zotero.debug(
+      `[AI Tagger] Evaluated "${variant.label}" on ${items.length} items: F1 ${overall.f1.toFixed(3)}`,
+    );
+  }
+
+  return {
+    version: EVALUATION_VERSION,
+    createdAt: new Date().toISOString(),
+    items: items.length,
+    variants: results,
+  };
+}
+
+/**
+ * Serialize an evaluation as CSV: for each setting, an "overall" row, a
+ * "tag" row per tag and an "item" row per item with its misses and false
+ * positives.
+ */
+export function evaluationToCSV(report: EvaluationReport): string {
+  const number = (value: number) => value.toFixed(4);
+  const scoreFields = (s: Scores) => [
+    String(s.truePositives),
+    String(s.falsePositives),
+    String(s.falseNegatives),
+    number(s.precision),
+    number(s.recall),
+    number(s.f1),
+  ];
+
+  const rows = [CSV_COLUMNS.join(",")];
+  const addRow = (fields: string[]) =>
+    rows.push(fields.map(escapeCSV).join(","));
+
+  for (const variant of report.variants) {
+    const overall = variant.overall;
+    addRow([
+      variant.label,
+      "overall",
+      "",
+      "",
+      String(overall.truePositives + overall.falseNegatives),
+      String(overall.truePositives + overall.falsePositives),
+      ...scoreFields(overall),
+      "",
+      "",
+      variant.errors > 0 ? `${variant.errors} item(s) failed` : "",
+    ]);
+    for (const tag of variant.tags) {
+      addRow([
+        variant.label,
+        "tag",
+        tag.tag,
+        "",
+        String(tag.truePositives + tag.falseNegatives),
+        String(tag.truePositives + tag.falsePositives),
+        ...scoreFields(tag),
+        "",
+        "",
+        "",
+      ]);
+    }
+    for (const item of variant.items) {
+      const tp = item.expected.length - item.misses.length;
+      addRow([
+        variant.label,
+        "item",
+        item.title,
+        item.itemKey,
+        item.expected.join(CSV_TAG_SEPARATOR),
+        item.suggested.join(CSV_TAG_SEPARATOR),
+        ...(item.error
+          ? ["", "", "", "", "", ""]
+          : scoreFields(
+              computeScores(tp, item.falsePositives.length, item.misses.length),
+            )),
+        item.misses.join(CSV_TAG_SEPARATOR),
+        item.falsePositives.join(CSV_TAG_SEPARATOR),
+        item.error || "",
+      ]);
+    }
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+/**
+ * Ask for a file name and save an evaluation as CSV or JSON, by extension.
+ * Returns the saved path, or null if cancelled.
+ */
+export async function exportEvaluation(
+  win: Window,
+  report: EvaluationReport,
+): Promise<string | null> {
+  const date = new Date().toISOString().substring(0, 10);
+  const path = await pickFile(
+    win,
+    "Save AI Tagger Evaluation",
+    "save",
+    `ai-tagger-evaluation-${date}.csv`,
+  );
+  if (!path) return null;
+
+  const text = path.toLowerCase().endsWith(".json")
+    ? JSON.stringify(report, null, 2)
+    : evaluationToCSV(report);
+  await IOUtils.writeUTF8(path, text);
+  Zotero.debug(`[AI Tagger] Saved evaluation to ${path}`);
+  return path;
+}
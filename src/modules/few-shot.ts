@@ -0,0 +1,81 @@
+/**
+ * Few-shot examples for the tagging prompt: the library items most similar
+ * to the one being tagged, by title and abstract, with the tags they were
+ * given by hand. Shows the model how the library's tags are actually used.
+ */
+
+import {
+  countTerms,
+  findSimilar,
+  getCuratedTags,
+  getLibraryIndex,
+  vectorize,
+  type TermCounts,
+} from "./library-index";
+import { truncateText } from "./text-extractor";
+
+/** A title word counts as much as this many abstract words. */
+const TITLE_WEIGHT = 2;
+
+/** Characters of each example's abstract included in the prompt. */
+const EXAMPLE_ABSTRACT_LENGTH = 500;
+
+/** Name of the library index over titles and abstracts. */
+const INDEX_NAME = "examples";
+
+/**
+ * Count weighted tokens in an item's title and abstract.
+ */
+function countItemTerms(item: Zotero.Item): TermCounts {
+  return countTerms([
+    [item.getField("title") || "", TITLE_WEIGHT],
+    [item.getField("abstractNote") || "", 1],
+  ]);
+}
+
+/**
+ * Find the items most similar to an item by title and abstract, and format
+ * them with their curated tags as examples for the prompt. Only tags in
+ * `vocabulary` are shown, so examples never offer tags the item can't get.
+ * Returns an empty string if `count` is 0 or no similar tagged item exists.
+ */
+export async function getFewShotExamples(
+  item: Zotero.Item,
+  count: number,
+  vocabulary: string[],
+): Promise<string> {
+  if (count <= 0) return "";
+
+  const index = await getLibraryIndex(item.libraryID, INDEX_NAME, async (i) =>
+    countItemTerms(i),
+  );
+  const ranked = findSimilar(
+    index,
+    vectorize(countItemTerms(item), index.idf),
+    item.id,
+  );
+
+  const allowed = new Set(vocabulary);
+  const examples: string[] = [];
+  for (const { itemID } of ranked) {
+    if (examples.length >= count) break;
+    const example = Zotero.Items.get(itemID) as Zotero.Item | false;
+    if (!example || example.deleted) continue;
+    // Tags may have changed since the library was indexed
+    const tags = getCuratedTags(example).filter((tag) => allowed.has(tag));
+    if (tags.length === 0) continue;
+
+    const abstract = example.getField("abstractNote") || "";
+    examples.push(
+      [
+        `Example ${examples.length + 1}:`,
+        `Title: ${example.getField("title") || ""}`,
+        ...(abstract
+          ? [`Abstract: ${truncateText(abstract, EXAMPLE_ABSTRACT_LENGTH)}`]
+          : []),
+        `Tags: ${tags.join(", ")}`,
+      ].join("\n"),
+    );
+  }
+  return examples.join("\n\n");
+}
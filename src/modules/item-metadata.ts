@@ -0,0 +1,25 @@
+/**
+ * Extract metadata from a Zotero item.
+ */
+export function getItemMetadata(item: Zotero.Item): Record<string, string> {
+  return {
+    title: item.getField("title") || "",
+    abstractNote: item.getField("abstractNote") || "",
+    creators: item
+      .getCreators()
+      .map((c: { firstName?: string; lastName?: string }) =>
+        `${c.firstName || ""} ${c.lastName || ""}`.trim(),
+      )
+      .join("; "),
+    itemType: item.itemType || "",
+    publicationTitle: item.getField("publicationTitle") || "",
+    date: item.getField("date") || "",
+    currentTags: item
+      .getTags()
+      .map((t: { tag: string }) => t.tag)
+      .join(", "),
+    doi: item.getField("DOI") || "",
+    url: item.getField("url") || "",
+    extra: item.getField("extra") || "",
+  };
+}
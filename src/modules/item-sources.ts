@@ -0,0 +1,100 @@
+/**
+ * Items to tag from a row of the collection tree: a collection (optionally
+ * with its subcollections), a saved search, "Unfiled Items", or the root of
+ * My Library or a group library.
+ */
+
+import { getPref } from "./preferences";
+
+/** Kinds of collection tree rows that can be tagged. */
+export type SourceKind = "collection" | "search" | "unfiled" | "library";
+
+export interface ItemSource {
+  kind: SourceKind;
+  /** Name shown in confirmations and the job manager */
+  name: string;
+  /** Regular items, each listed once */
+  items: Zotero.Item[];
+}
+
+/**
+ * Get the kind of a collection tree row, or null if it can't be tagged
+ * (trash, feeds, duplicates, My Publications, …).
+ */
+export function getSourceKind(
+  row: Zotero.CollectionTreeRow,
+): SourceKind | null {
+  if (row.isCollection()) return "collection";
+  if (row.isSearch()) return "search";
+  if (row.isUnfiled()) return "unfiled";
+  if (row.isLibrary() || row.isGroup()) return "library";
+  return null;
+}
+
+/**
+ * Reduce items to the regular items they belong to, each listed once.
+ * Child attachments and notes stand for their parent item.
+ */
+function toRegularItems(items: Zotero.Item[]): Zotero.Item[] {
+  const unique = new Map<number, Zotero.Item>();
+  for (const item of items) {
+    const regular = item.isRegularItem() ? item : item.parentItem;
+    if (regular && regular.isRegularItem() && !regular.deleted) {
+      unique.set(regular.id, regular);
+    }
+  }
+  return [...unique.values()];
+}
+
+/**
+ * Get a collection's items, and its subcollections' items if `recursive`.
+ */
+export function getCollectionItems(
+  collection: Zotero.Collection,
+  recursive: boolean,
+): Zotero.Item[] {
+  const items = collection.getChildItems();
+  if (recursive) {
+    for (const child of collection.getChildCollections()) {
+      items.push(...getCollectionItems(child, true));
+    }
+  }
+  return items;
+}
+
+/**
+ * Get the items to tag for a collection tree row. Subcollections are
+ * included when the "includeSubcollections" preference is set.
+ * Returns null if the row can't be tagged.
+ */
+export async function getRowItems(
+  row: Zotero.CollectionTreeRow,
+): Promise<ItemSource | null> {
+  const kind = getSourceKind(row);
+  let items: Zotero.Item[];
+
+  switch (kind) {
+    case "collection":
+      items = getCollectionItems(
+        row.ref as Zotero.Collection,
+        getPref("includeSubcollections") as boolean,
+      );
+      break;
+    case "search":
+    case "unfiled": {
+      const ids = await (row.ref as Zotero.Search).search();
+      items = await Zotero.Items.getAsync(ids);
+      break;
+    }
+    case "library":
+      items = await Zotero.Items.getAll(
+        (row.ref as Zotero.Library).libraryID,
+        true,
+      );
+      break;
+    default:
+      return null;
+  }
+
+  return { kind, name: row.getName(), items: toRegularItems(items) };
+}
@@ -0,0 +1,185 @@
+/**
+ * TF-IDF index of a library's tagged items, for finding the items most
+ * similar to a given one. Used for few-shot examples and by the
+ * statistical tagger, each with its own index over the fields it needs.
+ */
+
+import { getPref } from "./preferences";
+
+/** Items less similar than this are never considered similar. */
+const MIN_SIMILARITY = 0.05;
+
+/** Libraries are re-indexed after this long, to pick up newly tagged items. */
+const INDEX_MAX_AGE = 5 * 60 * 1000;
+
+/** Weighted token counts of a text. */
+export type TermCounts = Map<string, number>;
+
+/** A TF-IDF vector. */
+export interface TermVector {
+  weights: Map<string, number>;
+  norm: number;
+}
+
+export interface LibraryIndex {
+  items: Array<TermVector & { itemID: number }>;
+  /** Inverse document frequency of each token across the indexed items */
+  idf: Map<string, number>;
+}
+
+export interface SimilarItem {
+  itemID: number;
+  /** Cosine similarity, 0–1 */
+  score: number;
+}
+
+// Built once per library and index name, and shared by the items of a run
+const indexes = new Map<
+  string,
+  { builtAt: number; index: Promise<LibraryIndex> }
+>();
+
+/**
+ * Split text into lowercase word tokens with a naive plural strip.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).map((t) =>
+    t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t,
+  );
+}
+
+/**
+ * Count tokens across texts, each with its own weight.
+ */
+export function countTerms(texts: Array<[string, number]>): TermCounts {
+  const counts: TermCounts = new Map();
+  for (const [text, weight] of texts) {
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) || 0) + weight);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Get the tags an item was given by hand, leaving out automatic tags
+ * (including AI tags applied as automatic tags) and tags with the ignored
+ * prefix.
+ */
+export function getCuratedTags(item: Zotero.Item): string[] {
+  const prefixFilter = (getPref("tagPrefixFilter") as string) || "_";
+  return item
+    .getTags()
+    .filter(
+      (t: { tag: string; type?: number }) =>
+        !t.type && t.tag && !t.tag.startsWith(prefixFilter),
+    )
+    .map((t: { tag: string }) => t.tag);
+}
+
+/**
+ * Weight token counts by inverse document frequency. Tokens no indexed item
+ * has are dropped, since they can't contribute to a match.
+ */
+export function vectorize(
+  counts: TermCounts,
+  idf: Map<string, number>,
+): TermVector {
+  const weights = new Map<string, number>();
+  let sum = 0;
+  for (const [token, count] of counts) {
+    const weight = Math.log(1 + count) * (idf.get(token) || 0);
+    if (weight <= 0) continue;
+    weights.set(token, weight);
+    sum += weight * weight;
+  }
+  return { weights, norm: Math.sqrt(sum) };
+}
+
+/**
+ * Index the regular items of a library that have curated tags.
+ */
+async function buildIndex(
+  libraryID: number,
+  name: string,
+  countItemTerms: (item: Zotero.Item) => Promise<TermCounts>,
+): Promise<LibraryIndex> {
+  const documents: Array<{ itemID: number; counts: TermCounts }> = [];
+  const df = new Map<string, number>();
+
+  for (const item of await Zotero.Items.getAll(libraryID, true)) {
+    if (!item.isRegularItem() || item.deleted) continue;
+    if (getCuratedTags(item).length === 0) continue;
+    const counts = await countItemTerms(item);
+    if (counts.size === 0) continue;
+    documents.push({ itemID: item.id, counts });
+    for (const token of counts.keys()) df.set(token, (df.get(token) || 0) + 1);
+  }
+
+  const idf = new Map<string, number>();
+  for (const [token, count] of df) {
+    idf.set(token, Math.log(1 + documents.length / count));
+  }
+
+  const items = documents.map(({ itemID, counts }) => ({
+    itemID,
+    ...vectorize(counts, idf),
+  }));
+  Zotero.debug(
+    `[AI Tagger] Indexed ${items.length} tagged items in library ${libraryID} (${name})`,
+  );
+  return { items, idf };
+}
+
+/**
+ * Get the index of a library's tagged items, building it if needed.
+ * `name` tells apart indexes built with different `countItemTerms`.
+ */
+export function getLibraryIndex(
+  libraryID: number,
+  name: string,
+  countItemTerms: (item: Zotero.Item) => Promise<TermCounts>,
+): Promise<LibraryIndex> {
+  const key = `${libraryID}/${name}`;
+  const entry = indexes.get(key);
+  if (entry && Date.now() - entry.builtAt < INDEX_MAX_AGE) return entry.index;
+
+  const index = buildIndex(libraryID, name, countItemTerms);
+  indexes.set(key, { builtAt: Date.now(), index });
+  // Don't keep a failed build around
+  index.catch(() => indexes.delete(key));
+  return index;
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  if (!a.norm || !b.norm) return 0;
+  const [small, large] =
+    a.weights.size < b.weights.size
+      ? [a.weights, b.weights]
+      : [b.weights, a.weights];
+  let dot = 0;
+  for (const [token, weight] of small) {
+    dot += weight * (large.get(token) || 0);
+  }
+  return dot / (a.norm * b.norm);
+}
+
+/**
+ * Rank the indexed items by similarity to a query vector, most similar
+ * first, leaving out `excludeID` (usually the query item itself).
+ */
+export function findSimilar(
+  index: LibraryIndex,
+  query: TermVector,
+  excludeID?: number,
+): SimilarItem[] {
+  if (!query.norm) return [];
+  return index.items
+    .filter((indexed) => indexed.itemID !== excludeID)
+    .map((indexed) => ({
+      itemID: indexed.itemID,
+      score: cosine(query, indexed),
+    }))
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+}
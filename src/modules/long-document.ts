@@ -0,0 +1,203 @@
+import {
+  type ChatMessage,
+  type Connection,
+  type ResponseFormat,
+} from "./ai-service";
+import {
+  addUsage,
+  CHARS_PER_TOKEN,
+  estimateMessagesTokens,
+  type TokenUsage,
+} from "./cost-estimator";
+import {
+  completeStructured,
+  getErrorUsage,
+  type RequestBudget,
+} from "./response-parser";
+
+/** Max topics requested from each chunk. */
+const TOPICS_PER_CHUNK = 10;
+
+/** Max tokens for each chunk's topic list. */
+const TOPICS_MAX_TOKENS = 300;
+
+/** Typical tokens per extracted topic, for estimates. */
+const TOKENS_PER_TOPIC = 6;
+
+/**
+ * Split text into chunks of roughly `chunkTokens` tokens, breaking at
+ * paragraph or sentence boundaries where possible.
+ */
+export function chunkText(text: string, chunkTokens: number): string[] {
+  const chunkChars = Math.max(500, chunkTokens * CHARS_PER_TOKEN);
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + chunkChars, text.length);
+    if (end < text.length) {
+      // Prefer a paragraph break, then a sentence break, in the last 20%
+      const minEnd = start + Math.floor(chunkChars * 0.8);
+      const paragraph = text.lastIndexOf("\n\n", end);
+      const sentence = text.lastIndexOf(". ", end);
+      if (paragraph > minEnd) {
+        end = paragraph;
+      } else if (sentence > minEnd) {
+        end = sentence + 1;
+      }
+    }
+    const chunk = text.substring(start, end).trim();
+    if (chunk.length > 0) chunks.push(chunk);
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * Pick at most `max` chunks spread evenly across the document, so methods
+ * and results sections are covered rather than just the front matter.
+ */
+export function selectChunks(chunks: string[], max: number): string[] {
+  if (max <= 0) return [];
+  if (chunks.length <= max) return chunks;
+  if (max === 1) return [chunks[0]];
+
+  const step = (chunks.length - 1) / (max - 1);
+  const selected: string[] = [];
+  for (let i = 0; i < max; i++) {
+    selected.push(chunks[Math.round(i * step)]);
+  }
+  return selected;
+}
+
+function buildTopicsFormat(): ResponseFormat {
+  return {
+    type: "json_schema",
+    json_schema: {
+      name: "chunk_topics",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          topics: {
+            type: "array",
+            description: "Key topics, methods, and findings in this excerpt",
+            items: { type: "string" },
+          },
+        },
+        required: ["topics"],
+        additionalProperties: false,
+      },
+    },
+  };
+}
+
+function buildChunkMessages(
+  chunk: string,
+  index: number,
+  total: number,
+  title: string,
+): ChatMessage[] {
+  const prompt = `The following is excerpt ${index + 1} of ${total} from the document "${title}".\n\nEXCERPT:\n${chunk}\n\nList up to ${TOPICS_PER_CHUNK} short topics (subject areas, methods, materials, study sites, findings) that this excerpt is about. Use concise noun phrases suitable as library tags.`;
+  return [
+    {
+      role: "system",
+      content:
+        "You are a research librarian extracting the key topics from sections of academic documents.",
+    },
+    { role: "user", content: prompt },
+  ];
+}
+
+/**
+ * Map step: ask the model for candidate topics in each chunk, then merge
+ * them, most frequently mentioned first. Sends at most one request per
+ * chunk: each repair request takes the place of a chunk from the middle,
+ * so the introduction and conclusions are always read.
+ */
+export async function extractChunkTopics(
+  chunks: string[],
+  title: string,
+  temperature: number,
+  signal?: AbortSignal,
+  connection?: Connection,
+): Promise<{ topics: string[]; usage: TokenUsage }> {
+  const counts = new Map<string, { topic: string; count: number }>();
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  const budget: RequestBudget = { remaining: chunks.length };
+
+  const pending = chunks.map((_chunk, i) => i);
+  while (pending.length > 0) {
+    while (pending.length > 1 && budget.remaining < pending.length) {
+      const middle = Math.floor((pending.length - 1) / 2);
+      const [skipped] = pending.splice(middle, 1);
+      Zotero.debug(
+        `[AI Tagger] Request budget used by repairs; skipping chunk ${skipped + 1}/${chunks.length}`,
+      );
+    }
+    const i = pending.shift()!;
+    const messages = buildChunkMessages(chunks[i], i, chunks.length, title);
+    // Repairs may not use the request kept for the last chunk
+    const reserved = pending.length > 0 ? 1 : 0;
+    const chunkBudget: RequestBudget = {
+      remaining: budget.remaining - reserved,
+    };
+
+    try {
+      const { parsed, usage: chunkUsage } = await completeStructured<{
+        topics: string[];
+      }>(
+        {
+          messages,
+          temperature,
+          max_tokens: TOPICS_MAX_TOKENS,
+          response_format: buildTopicsFormat(),
+        },
+        { signal, connection, budget: chunkBudget },
+      );
+      addUsage(usage, chunkUsage);
+
+      for (const raw of parsed.topics) {
+        const topic = raw.trim();
+        if (!topic) continue;
+        const key = topic.toLowerCase();
+        const entry = counts.get(key);
+        if (entry) {
+          entry.count++;
+        } else {
+          counts.set(key, { topic, count: 1 });
+        }
+      }
+    } catch (e) {
+      addUsage(usage, getErrorUsage(e));
+      if (signal?.aborted) throw e;
+      // One failed chunk shouldn't sink the whole item
+      Zotero.debug(
+        `[AI Tagger] Topic extraction failed for chunk ${i + 1}/${chunks.length}: ${e}`,
+      );
+    }
+    budget.remaining = chunkBudget.remaining + reserved;
+  }
+
+  const topics = [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .map((e) => e.topic);
+  return { topics, usage };
+}
+
+/**
+ * Estimate the tokens the map step will use for these chunks.
+ */
+export function estimateChunkTopicsUsage(
+  chunks: string[],
+  title: string,
+): TokenUsage {
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  chunks.forEach((chunk, i) => {
+    usage.promptTokens += estimateMessagesTokens(
+      buildChunkMessages(chunk, i, chunks.length, title),
+    );
+    usage.completionTokens += TOPICS_PER_CHUNK * TOKENS_PER_TOPIC;
+  });
+  return usage;
+}
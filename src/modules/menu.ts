@@ -1,43 +1,235 @@
-import { processBatch, type BatchProgress } from "./batch-processor";
-import { suggestTags, applyTags, type TagResult } from "./tag-engine";
+import { config } from "../../package.json";
+import { listJobs, removeJob, type BatchJob } from "./batch-jobs";
+import {
+  estimateBatch,
+  getActiveBatch,
+  getBudgetCap,
+  processBatch,
+  type BatchEstimate,
+  type BatchOptions,
+  type BatchProgress,
+  type ConfirmDecision,
+} from "./batch-processor";
+import { formatCost } from "./cost-estimator";
+import {
+  evaluate,
+  exportEvaluation,
+  sampleTaggedItems,
+  type EvaluationReport,
+  type EvaluationVariant,
+  type VariantResult,
+} from "./evaluation";
+import {
+  getRowItems,
+  getSourceKind,
+  type ItemSource,
+} from "./item-sources";
+import { getCuratedTags } from "./library-index";
+import {
+  cancelOfflineBatch,
+  getActiveWait,
+  submitOfflineBatch,
+  waitForOfflineBatch,
+} from "./offline-batch";
+import {
+  suggestTags,
+  applyTags,
+  partitionByConfidence,
+  type TagResult,
+} from "./tag-engine";
 import { getPref } from "./preferences";
+import { assignProfile, getAssignedProfile, getProfiles } from "./profiles";
+import {
+  markProcessed,
+  selectItemsToTag,
+  type ItemSelection,
+} from "./processed-items";
+import {
+  applyReport,
+  buildReport,
+  exportReport,
+  importReport,
+} from "./suggestion-report";
+import {
+  createRun,
+  getLastRun,
+  listRuns,
+  undoRun,
+  type TaggingRun,
+} from "./run-journal";
 
 const MENU_ID = "ai-tagger-generate-tags";
 const MENU_COLLECTION_ID = "ai-tagger-generate-tags-collection";
+const MENU_UNDO_LAST_ID = "ai-tagger-undo-last-run";
+const MENU_UNDO_RUN_ID = "ai-tagger-undo-run";
+const MENU_DRY_RUN_ID = "ai-tagger-dry-run";
+const MENU_COLLECTION_DRY_RUN_ID = "ai-tagger-dry-run-collection";
+const MENU_APPLY_REPORT_ID = "ai-tagger-apply-report";
+const MENU_JOBS_ID = "ai-tagger-jobs";
+const MENU_COLLECTION_OFFLINE_ID = "ai-tagger-offline-batch-collection";
+const MENU_RETAG_ID = "ai-tagger-retag";
+const MENU_COLLECTION_RETAG_ID = "ai-tagger-retag-collection";
+const MENU_COLLECTION_PROFILE_ID = "ai-tagger-collection-profile";
+const MENU_COLLECTION_EVALUATE_ID = "ai-tagger-evaluate-collection";
+const CONFIRM_DIALOG_URL = `chrome://${config.addonRef}/content/confirm-dialog.xhtml`;
+const PROGRESS_DIALOG_URL = `chrome://${config.addonRef}/content/batch-progress.xhtml`;
+
+/** How long a finished batch's progress window stays open (ms). */
+const PROGRESS_CLOSE_DELAY = 10000;
+
+/** Items sampled for an evaluation unless the user enters another number. */
+const DEFAULT_EVALUATION_SAMPLE = 20;
+
+/** Tags listed per setting in the evaluation summary. */
+const EVALUATION_SUMMARY_TAGS = 5;
+
+/** Collection menu entries, shown only on rows that can be tagged. */
+const COLLECTION_MENU_IDS = [
+  MENU_COLLECTION_ID + "-sep",
+  MENU_COLLECTION_ID,
+  MENU_COLLECTION_RETAG_ID,
+  MENU_COLLECTION_DRY_RUN_ID,
+  MENU_COLLECTION_OFFLINE_ID,
+  MENU_COLLECTION_EVALUATE_ID,
+];
+
+// Collection menu listeners by window, removed when the menus are
+const collectionMenuListeners = new WeakMap<Window, (event: Event) => void>();
+
+/** Menu options; `force` also tags items that batch runs normally skip. */
+type TagMenuOptions = BatchOptions & { force?: boolean };
 
 /**
- * Show a tag confirmation dialog.
- * Returns the selected tags, or null if cancelled.
+ * Show the per-tag confirmation dialog for the tags under review, with each
+ * tag's confidence and justification. `autoTags` are listed as applied anyway.
+ * In batch mode the dialog also offers "Apply to all remaining" and "Cancel batch".
  */
 async function showConfirmationDialog(
   result: TagResult,
-): Promise<string[] | null> {
+  inBatch: boolean,
+  autoTags: string[] = [],
+): Promise<ConfirmDecision> {
   const win = Zotero.getMainWindow();
-  if (!win) return null;
+  if (!win) return { action: "skip", tags: [] };
 
-  // Build a simple checkbox dialog using Zotero's prompt service
   const shortTitle =
     result.title.length > 60
       ? result.title.substring(0, 60) + "…"
       : result.title;
 
-  const promptText = `AI suggests these tags for "${shortTitle}":\n\n${result.suggestedTags.map((t) => `• ${t}`).join("\n")}\n\nReasoning: ${result.reasoning}\n\nApply all tags?`;
+  const io = {
+    dataIn: {
+      title: shortTitle,
+      tags: result.suggestedTags,
+      details: result.suggestions || [],
+      autoTags,
+      reasoning: result.reasoning,
+      batch: inBatch,
+    },
+    dataOut: null as ConfirmDecision | null,
+  };
+
+  // Modal: blocks until the dialog is closed
+  win.openDialog(
+    CONFIRM_DIALOG_URL,
+    "ai-tagger-confirm",
+    "chrome,modal,centerscreen,resizable",
+    io,
+  );
+
+  return io.dataOut || { action: "skip", tags: [] };
+}
+
+/**
+ * Describe a pre-flight estimate and the budget cap for display in prompts.
+ */
+function describeEstimate(estimate: BatchEstimate): string {
+  const lines = [
+    `Estimated usage for ${estimate.items} item(s):`,
+    `• ${estimate.requests} API request(s)` +
+      (estimate.cached > 0 ? ` (${estimate.cached} item(s) cached)` : ""),
+    `• ~${estimate.inputTokens.toLocaleString()} input tokens, ~${estimate.outputTokens.toLocaleString()} output tokens`,
+    `• Estimated cost: ${formatCost(estimate.cost)}`,
+  ];
+
+  const cap = getBudgetCap();
+  if (cap.tokens > 0) {
+    lines.push(`Token budget: ${cap.tokens.toLocaleString()}`);
+  }
+  if (cap.cost > 0) {
+    lines.push(`Cost budget: ${formatCost(cap.cost)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Describe the items a batch run skipped, or "" if none were.
+ */
+function describeSkipped(selection: ItemSelection): string {
+  const parts: string[] = [];
+  if (selection.processed > 0) {
+    parts.push(`${selection.processed} item(s) already processed`);
+  }
+  if (selection.tagged > 0) {
+    parts.push(
+      `${selection.tagged} item(s) with ${getPref("fewerTagsThan")} or more tags`,
+    );
+  }
+  if (parts.length === 0) return "";
+  return `Skipping ${parts.join(" and ")}. Use "Re-tag (Force)" to include them.`;
+}
 
+/**
+ * Estimate a batch run while showing a progress window.
+ */
+async function estimateWithProgress(
+  items: Zotero.Item[],
+  options: BatchOptions = {},
+): Promise<BatchEstimate> {
+  const progressWindow = new Zotero.ProgressWindow({ closeOnClick: false });
+  progressWindow.addDescription("AI Tagger: Estimating usage…");
+  const itemProgress = new progressWindow.ItemProgress("", "");
+  itemProgress.setText(`0 / ${items.length}`);
+  progressWindow.show();
+
+  try {
+    return await estimateBatch(items, options, (current, total) => {
+      itemProgress.setProgress(Math.round((current / total) * 100));
+      itemProgress.setText(`${current} / ${total}`);
+    });
+  } finally {
+    progressWindow.close();
+  }
+}
+
+/**
+ * Ask whether to continue a batch that reached the budget cap.
+ */
+async function confirmBudgetReached(
+  progress: BatchProgress,
+): Promise<boolean> {
+  const win = Zotero.getMainWindow();
+  if (!win) return false;
+
+  const tokens = progress.usage.promptTokens + progress.usage.completionTokens;
   const ps = Components.classes[
     "@mozilla.org/embedcomp/prompt-service;1"
   ].getService(Components.interfaces.nsIPromptService);
 
-  // Simple confirm dialog: Apply All / Cancel
-  // For a more granular per-tag selection, a custom XUL dialog would be needed
-  const confirmed = ps.confirm(win, "AI Tagger - Confirm Tags", promptText);
-
-  return confirmed ? result.suggestedTags : null;
+  return ps.confirm(
+    win,
+    "AI Tagger - Budget",
+    `The budget cap has been reached after ${progress.current} of ${progress.total} items.\n\nUsed: ${tokens.toLocaleString()} tokens, ${formatCost(progress.cost)}\n\nContinue past the cap for the rest of this run?\n\nIf not, the job is paused and can be resumed later from Tools → AI Tagging Jobs….`,
+  );
 }
 
 /**
  * Handle tagging for selected items (single or batch).
  */
-async function handleTagSelected(win: Window): Promise<void> {
+async function handleTagSelected(
+  win: Window,
+  { force, ...options }: TagMenuOptions = {},
+): Promise<void> {
   const zoteroPane = win.ZoteroPane;
   if (!zoteroPane) return;
 
@@ -48,7 +240,7 @@ async function handleTagSelected(win: Window): Promise<void> {
   }
 
   // Filter to regular items and attachments with parents
-  const validItems = items.filter(
+  let validItems = items.filter(
     (item: Zotero.Item) =>
       item.isRegularItem() ||
       (item.isAttachment() && item.parentID),
@@ -59,14 +251,54 @@ async function handleTagSelected(win: Window): Promise<void> {
     return;
   }
 
+  // Skip processed items and show the pre-flight estimate before a
+  // multi-item run. A single selected item is always tagged.
+  if (validItems.length > 1) {
+    const selection = await selectItemsToTag(validItems, force);
+    const skipped = describeSkipped(selection);
+    if (selection.items.length === 0) {
+      Zotero.alert(win, "AI Tagger", `Nothing to tag. ${skipped}`);
+      return;
+    }
+    validItems = selection.items;
+
+    const estimate = await estimateWithProgress(validItems, options);
+    const ps = Components.classes[
+      "@mozilla.org/embedcomp/prompt-service;1"
+    ].getService(Components.interfaces.nsIPromptService);
+    const action = options.dryRun ? "Preview AI tags" : "Generate AI tags";
+    const confirmed = ps.confirm(
+      win,
+      "AI Tagger",
+      `${action} for ${validItems.length} items?\n\n${describeEstimate(estimate)}${skipped ? `\n\n${skipped}` : ""}`,
+    );
+    if (!confirmed) return;
+  }
+
+  await tagItems(win, validItems, {
+    label: `${validItems.length} selected items`,
+    ...options,
+  });
+}
+
+/**
+ * Tag one or more items, using the single-item or batch flow as appropriate.
+ * Honors the confirmation mode preference. Dry runs always use the batch flow,
+ * which produces the report.
+ */
+export async function tagItems(
+  win: Window,
+  items: Zotero.Item[],
+  options: BatchOptions = {},
+): Promise<void> {
   const confirmationMode = getPref("confirmationMode") as boolean;
 
-  if (validItems.length === 1) {
+  if (items.length === 1 && !options.dryRun) {
     // Single item mode
-    await handleSingleItem(win, validItems[0], confirmationMode);
+    await handleSingleItem(win, items[0], confirmationMode, options);
   } else {
     // Batch mode
-    await handleBatchItems(win, validItems, confirmationMode);
+    await handleBatchItems(win, items, confirmationMode, options);
   }
 }
 
@@ -77,6 +309,7 @@ async function handleSingleItem(
   win: Window,
   item: Zotero.Item,
   confirmationMode: boolean,
+  options: BatchOptions = {},
 ): Promise<void> {
   const shortTitle =
     (item.getField("title") || "").length > 50
@@ -91,7 +324,10 @@ async function handleSingleItem(
 
   try {
     itemProgress.setProgress(30);
-    const result = await suggestTags(item);
+    const result = await suggestTags(item, {
+      bypassCache: options.bypassCache,
+      waitForAttachments: options.waitForAttachments,
+    });
 
     if (result.error) {
       itemProgress.setError();
@@ -100,7 +336,11 @@ async function handleSingleItem(
       return;
     }
 
+    const run = createRun();
+    const model = result.model || "";
+
     if (result.suggestedTags.length === 0) {
+      await markProcessed(item, run, model);
       itemProgress.setProgress(100);
       itemProgress.setText("No new tags found");
       progressWindow.startCloseTimer(5000, true);
@@ -109,29 +349,49 @@ async function handleSingleItem(
 
     itemProgress.setProgress(70);
 
-    // Confirmation mode
-    let tagsToApply = result.suggestedTags;
-    if (confirmationMode) {
+    // Confirm everything in confirmation mode, else only tags below the
+    // auto-apply threshold
+    const { autoTags, reviewTags } = partitionByConfidence(
+      result,
+      confirmationMode,
+    );
+    let tagsToApply = autoTags;
+    if (reviewTags.length > 0) {
       itemProgress.setText("Waiting for confirmation…");
-      const confirmed = await showConfirmationDialog(result);
-      if (!confirmed) {
+      const decision = await showConfirmationDialog(
+        { ...result, suggestedTags: reviewTags },
+        false,
+        autoTags,
+      );
+      if (decision.action === "apply") {
+        tagsToApply = [...autoTags, ...decision.tags];
+      }
+      if (tagsToApply.length === 0) {
+        // The tags were rejected; don't offer them again in batch runs
+        await markProcessed(item, run, model);
         itemProgress.setText("Cancelled by user");
         progressWindow.startCloseTimer(3000, true);
         return;
       }
-      tagsToApply = confirmed;
     }
 
     // Apply tags
     itemProgress.setProgress(90);
     itemProgress.setText("Applying tags…");
-    await applyTags(result.itemID, tagsToApply);
+    const added = await applyTags(result.itemID, tagsToApply, model, run);
+    await markProcessed(item, run, model);
 
     itemProgress.setProgress(100);
-    for (const tag of tagsToApply) {
-      progressWindow.addDescription(`• ${tag}`);
+    const confidence = new Map(
+      result.suggestions.map((s) => [s.name, s.confidence]),
+    );
+    for (const tag of added) {
+      const c = confidence.get(tag);
+      progressWindow.addDescription(
+        c === undefined ? `• ${tag}` : `• ${tag} (${Math.round(c * 100)}%)`,
+      );
     }
-    itemProgress.setText(`✅ Added ${tagsToApply.length} tag(s)`);
+    itemProgress.setText(`✅ Added ${added.length} tag(s)`);
     progressWindow.startCloseTimer(5000, true);
   } catch (error) {
     itemProgress.setError();
@@ -140,6 +400,50 @@ async function handleSingleItem(
   }
 }
 
+/**
+ * Open the batch progress window. Returns its shared state, a function to
+ * redraw it, and one to show the final summary and close it after a delay.
+ */
+function openProgressDialog(
+  win: Window,
+  title: string,
+  current: number,
+  total: number,
+) {
+  // Shared with the progress window; see batch-progress.js
+  const io = {
+    dataIn: { title },
+    state: {
+      current,
+      total,
+      status: "",
+      summary: "",
+      done: false,
+    },
+    onPause: () => {},
+    onCancel: () => {},
+    update: null as (() => void) | null,
+  };
+  const refresh = () => io.update?.();
+
+  const dialog = win.openDialog(
+    PROGRESS_DIALOG_URL,
+    "",
+    "chrome,centerscreen,resizable,dialog=no",
+    io,
+  );
+  const finish = (summary: string) => {
+    io.state.status = "";
+    io.state.summary = summary;
+    io.state.done = true;
+    refresh();
+    setTimeout(() => {
+      if (dialog && !dialog.closed) dialog.close();
+    }, PROGRESS_CLOSE_DELAY);
+  };
+  return { io, refresh, finish };
+}
+
 /**
  * Handle batch item tagging with progress dialog.
  */
@@ -147,30 +451,44 @@ async function handleBatchItems(
   win: Window,
   items: Zotero.Item[],
   confirmationMode: boolean,
+  options: BatchOptions = {},
 ): Promise<void> {
-  const progressWindow = new Zotero.ProgressWindow({ closeOnClick: false });
-  progressWindow.addDescription(
-    `AI Tagger: Processing ${items.length} items…`,
+  const { io, refresh, finish } = openProgressDialog(
+    win,
+    options.job
+      ? `Resuming "${options.job.label}"…`
+      : `Processing ${items.length} items…`,
+    options.job?.completedIDs.length || 0,
+    options.job?.itemIDs.length || items.length,
   );
-  const itemProgress = new progressWindow.ItemProgress("", "");
-  itemProgress.setText(`0 / ${items.length}`);
-  progressWindow.show();
 
-  const confirmFn = confirmationMode ? showConfirmationDialog : null;
+  const confirmFn = options.dryRun ? null : showConfirmationDialog;
 
-  const { cancel, promise } = processBatch(
+  const { cancel, pause, promise } = processBatch(
     items,
     (progress: BatchProgress) => {
-      const pct = Math.round((progress.current / progress.total) * 100);
-      itemProgress.setProgress(pct);
-      itemProgress.setText(`${progress.current} / ${progress.total}`);
+      io.state.current = progress.current;
+      io.state.total = progress.total;
+      refresh();
     },
     confirmFn,
+    {
+      onBudgetReached: confirmBudgetReached,
+      confirmAll: confirmationMode,
+      ...options,
+    },
   );
 
-  // Store cancel function so it could be called from UI
-  // For now, the progress window's close will cancel
-  progressWindow.addDescription("Close this window to cancel.");
+  io.onCancel = () => {
+    io.state.status = "Cancelling…";
+    refresh();
+    cancel();
+  };
+  io.onPause = () => {
+    io.state.status = "Pausing…";
+    refresh();
+    pause();
+  };
 
   try {
     const result = await promise;
@@ -181,8 +499,6 @@ async function handleBatchItems(
     );
     const errors = result.results.filter((r) => r.error).length;
 
-    itemProgress.setProgress(100);
-
     let summary = `✅ Done: ${totalTags} tags added across ${result.current} items`;
     if (errors > 0) {
       summary += ` (${errors} errors)`;
@@ -190,58 +506,832 @@ async function handleBatchItems(
     if (result.cancelled) {
       summary = `⚠️ Cancelled: processed ${result.current} of ${result.total}`;
     }
+    if (result.paused) {
+      summary = `⏸️ Paused: processed ${result.current} of ${result.total}. Resume from Tools → AI Tagging Jobs…`;
+    }
+    if (result.budgetReached) {
+      summary = `⚠️ Budget cap reached: paused after ${result.current} of ${result.total}`;
+    }
+    const tokens = result.usage.promptTokens + result.usage.completionTokens;
+    if (options.dryRun && !result.cancelled && !result.paused) {
+      const suggested = result.results.reduce(
+        (sum, r) => sum + r.suggestedTags.length,
+        0,
+      );
+      summary = `🔍 Dry run: ${suggested} tags suggested across ${result.current} items`;
+      if (errors > 0) {
+        summary += ` (${errors} errors)`;
+      }
+    }
+    if (tokens > 0) {
+      summary += ` — ${tokens.toLocaleString()} tokens, ${formatCost(result.cost)}`;
+    }
 
-    itemProgress.setText(summary);
-    progressWindow.startCloseTimer(8000, true);
+    finish(summary);
+
+    // A dry run's only output is the report, so save it even if cancelled.
+    // Paused dry runs report once they are resumed and finished.
+    if (options.dryRun && !result.paused && result.results.length > 0) {
+      const path = await exportReport(win, buildReport(result.results));
+      if (path) {
+        Zotero.alert(
+          win,
+          "AI Tagger",
+          `Saved the suggestion report to:\n${path}\n\nEdit it if needed, then use Tools → Apply AI Tag Report… to apply it.`,
+        );
+      }
+    }
   } catch (error) {
-    itemProgress.setError();
-    itemProgress.setText(`Error: ${(error as Error).message}`);
-    progressWindow.startCloseTimer(8000, true);
+    finish(`Error: ${(error as Error).message}`);
   }
 }
 
 /**
- * Handle tagging for an entire collection.
+ * Prepare items and send them to the provider's Batch API, then wait for
+ * the results and apply them like a normal batch.
  */
-async function handleTagCollection(win: Window): Promise<void> {
-  const zoteroPane = win.ZoteroPane;
-  if (!zoteroPane) return;
+async function handleOfflineBatch(
+  win: Window,
+  items: Zotero.Item[],
+  label: string,
+): Promise<void> {
+  const progress = openProgressDialog(
+    win,
+    `Preparing ${items.length} items for the Batch API…`,
+    0,
+    items.length,
+  );
+  const { io, refresh, finish } = progress;
 
-  const collection = zoteroPane.getSelectedCollection();
-  if (!collection) {
-    Zotero.alert(win, "AI Tagger", "No collection selected.");
+  // Nothing has been sent yet, so pausing also just stops
+  const controller = new AbortController();
+  io.onPause = io.onCancel = () => {
+    io.state.status = "Cancelling…";
+    refresh();
+    controller.abort();
+  };
+
+  let job: BatchJob;
+  try {
+    job = await submitOfflineBatch(
+      items,
+      label,
+      { confirmationMode: getPref("confirmationMode") as boolean },
+      (current) => {
+        io.state.current = current;
+        refresh();
+      },
+      controller.signal,
+    );
+  } catch (error) {
+    finish(
+      controller.signal.aborted
+        ? "⚠️ Cancelled before anything was sent"
+        : `Error: ${(error as Error).message}`,
+    );
     return;
   }
 
-  const items = collection.getChildItems();
-  const regularItems = items.filter((item: Zotero.Item) =>
-    item.isRegularItem(),
-  );
+  await resumeJob(win, job, progress);
+}
 
-  if (regularItems.length === 0) {
+/**
+ * Wait for a job's provider batch to finish, showing its status.
+ * Resolves true once the answers are ready to apply.
+ */
+async function waitForProviderBatch(
+  win: Window,
+  job: BatchJob,
+  progress = openProgressDialog(
+    win,
+    `Waiting for the provider batch "${job.label}"…`,
+    0,
+    Object.keys(job.remote!.requests).length,
+  ),
+): Promise<boolean> {
+  const { io, refresh, finish } = progress;
+  io.state.current = 0;
+  io.state.total = Object.keys(job.remote!.requests).length;
+  io.state.status = "Submitted to the provider…";
+  refresh();
+
+  const wait = waitForOfflineBatch(job, (status) => {
+    const counts = status.request_counts;
+    if (counts?.total) {
+      io.state.current = counts.completed + counts.failed;
+      io.state.total = counts.total;
+    }
+    io.state.status = `Provider batch ${status.status}: ${io.state.current} / ${io.state.total} — checked every minute`;
+    refresh();
+  });
+  io.onPause = () => {
+    io.state.status = "Pausing…";
+    refresh();
+    wait.pause();
+  };
+  io.onCancel = () => {
+    io.state.status = "Cancelling…";
+    refresh();
+    wait.cancel();
+  };
+
+  try {
+    const ready = await wait.promise;
+    if (ready) {
+      finish("✅ The provider batch has finished; applying tags…");
+    } else if (job.status === "paused") {
+      finish(
+        "⏸️ Stopped waiting. The provider keeps working; resume from Tools → AI Tagging Jobs…",
+      );
+    } else {
+      finish("⚠️ Cancelled the provider batch");
+    }
+    return ready;
+  } catch (error) {
+    finish(`Error: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Get the collection tree row selected in a window.
+ */
+function getSelectedRow(win: Window): Zotero.CollectionTreeRow | undefined {
+  return win.ZoteroPane?.getCollectionTreeRow() as
+    | Zotero.CollectionTreeRow
+    | undefined;
+}
+
+/**
+ * Describe where a source's items come from, e.g. `"Reading" and its
+ * subcollections`.
+ */
+function describeSource(source: ItemSource): string {
+  const recursive =
+    source.kind === "collection" &&
+    (getPref("includeSubcollections") as boolean);
+  return recursive
+    ? `"${source.name}" and its subcollections`
+    : `"${source.name}"`;
+}
+
+/**
+ * Handle tagging for the row selected in the collection tree: a
+ * collection, saved search, Unfiled Items, or a whole library.
+ * With `offline`, the items go through the provider's Batch API.
+ */
+async function handleTagCollection(
+  win: Window,
+  { force, ...options }: TagMenuOptions = {},
+  offline = false,
+): Promise<void> {
+  const row = getSelectedRow(win);
+  const source = row ? await getRowItems(row) : null;
+  if (!source) {
     Zotero.alert(
       win,
       "AI Tagger",
-      "No regular items found in this collection.",
+      "Select a collection, saved search or library to tag.",
     );
     return;
   }
 
-  // Confirm before processing entire collection
+  const where = describeSource(source);
+  if (source.items.length === 0) {
+    Zotero.alert(win, "AI Tagger", `No regular items found in ${where}.`);
+    return;
+  }
+
+  const selection = await selectItemsToTag(source.items, force);
+  const regularItems = selection.items;
+  const skipped = describeSkipped(selection);
+  if (regularItems.length === 0) {
+    Zotero.alert(win, "AI Tagger", `Nothing to tag in ${where}. ${skipped}`);
+    return;
+  }
+  const skippedNote = skipped ? `\n\n${skipped}` : "";
+
+  // Batch API runs don't use the response cache
+  const estimate = await estimateWithProgress(
+    regularItems,
+    offline ? { ...options, bypassCache: true } : options,
+  );
+  const action = options.dryRun ? "Preview AI tags" : "Generate AI tags";
+
+  // Confirm the item count before processing
   const ps = Components.classes[
     "@mozilla.org/embedcomp/prompt-service;1"
   ].getService(Components.interfaces.nsIPromptService);
 
-  const confirmed = ps.confirm(
+  if (offline) {
+    const confirmed = ps.confirm(
+      win,
+      "AI Tagger",
+      `Send ${regularItems.length} items in ${where} to the provider's Batch API?\n\n${describeEstimate(estimate)}${skippedNote}\n\nBatch requests are usually billed at a discount and finish within 24 hours. Long documents are tagged from their beginning only. Tags are confirmed and applied as usual once the results are in.`,
+    );
+    if (confirmed) await handleOfflineBatch(win, regularItems, source.name);
+    return;
+  }
+
+  const bypassCache = { value: false };
+  const confirmed = ps.confirmCheck(
     win,
     "AI Tagger",
-    `Generate AI tags for ${regularItems.length} items in "${collection.name}"?\n\nThis may take a while and use API credits.`,
+    `${action} for ${regularItems.length} items in ${where}?\n\n${describeEstimate(estimate)}${skippedNote}\n\nBypassing the cache sends cached items to the API again.`,
+    "Bypass the response cache for this run",
+    bypassCache,
   );
 
   if (!confirmed) return;
 
+  // The estimate above counted cached items as free
+  if (bypassCache.value && estimate.cached > 0) {
+    const uncached = await estimateWithProgress(regularItems, {
+      ...options,
+      bypassCache: true,
+    });
+    const confirmedUncached = ps.confirm(
+      win,
+      "AI Tagger",
+      `Without the response cache, ${estimate.cached} cached item(s) are sent to the API again.\n\n${describeEstimate(uncached)}\n\nContinue?`,
+    );
+    if (!confirmedUncached) return;
+  }
+
   const confirmationMode = getPref("confirmationMode") as boolean;
-  await handleBatchItems(win, regularItems, confirmationMode);
+  await handleBatchItems(win, regularItems, confirmationMode, {
+    label: source.name,
+    ...options,
+    bypassCache: bypassCache.value,
+  });
+}
+
+/**
+ * Ask which settings to evaluate: the current settings, a profile, or
+ * another model with the global settings. With `optional`, the list
+ * starts with "No comparison". Returns null if cancelled or not chosen.
+ */
+function chooseEvaluationVariant(
+  win: Window,
+  text: string,
+  optional: boolean,
+): EvaluationVariant | null {
+  const ps = Components.classes[
+    "@mozilla.org/embedcomp/prompt-service;1"
+  ].getService(Components.interfaces.nsIPromptService);
+  const globalModel = getPref("model") as string;
+  const profiles = getProfiles();
+
+  const variants: Array<EvaluationVariant | null> = [
+    { label: "Current settings", model: globalModel },
+    ...Object.keys(profiles)
+      .sort()
+      .map((name) => ({
+        label: `Profile: ${name}`,
+        model: profiles[name].model || globalModel,
+        profile: { name, profile: profiles[name] },
+      })),
+    // Another model, asked for below
+    null,
+  ];
+  const labels = [
+    ...variants.slice(0, -1).map((v) => v!.label),
+    "Another model…",
+  ];
+  if (optional) {
+    variants.unshift(null);
+    labels.unshift("No comparison");
+  }
+
+  const selected = { value: 0 };
+  if (!ps.select(win, "AI Tagger - Evaluate", text, labels, selected)) {
+    return null;
+  }
+  if (optional && selected.value === 0) return null;
+  const variant = variants[selected.value];
+  if (variant) return variant;
+
+  const model = { value: globalModel };
+  if (
+    !ps.prompt(
+      win,
+      "AI Tagger - Evaluate",
+      "Model to evaluate with the global settings:",
+      model,
+      "",
+      { value: false },
+    ) ||
+    !model.value.trim()
+  ) {
+    return null;
+  }
+  const name = model.value.trim();
+  return {
+    label: `Model: ${name}`,
+    model: name,
+    profile: { name: null, profile: { model: name } },
+  };
+}
+
+/**
+ * Describe one setting's evaluation results for the summary.
+ */
+function describeVariantResult(result: VariantResult): string {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const { precision, recall, f1 } = result.overall;
+  const lines = [
+    `${result.label}: precision ${percent(precision)}, recall ${percent(recall)}, F1 ${percent(f1)}`,
+  ];
+
+  const top = (key: "falseNegatives" | "falsePositives") =>
+    result.tags
+      .filter((t) => t[key] > 0)
+      .sort((a, b) => b[key] - a[key])
+      .slice(0, EVALUATION_SUMMARY_TAGS)
+      .map((t) => `${t.tag} (${t[key]})`)
+      .join(", ");
+  const missed = top("falseNegatives");
+  const wrong = top("falsePositives");
+  if (missed) lines.push(`• Most missed: ${missed}`);
+  if (wrong) lines.push(`• Most often suggested wrongly: ${wrong}`);
+  if (result.errors > 0) lines.push(`• ${result.errors} item(s) failed`);
+
+  const tokens = result.usage.promptTokens + result.usage.completionTokens;
+  if (tokens > 0) {
+    lines.push(`• ${tokens.toLocaleString()} tokens, ${formatCost(result.cost)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Evaluate suggestion quality on a sample of already-tagged items in the
+ * row selected in the collection tree, optionally comparing two settings,
+ * then offer to save the full results.
+ */
+async function handleEvaluate(win: Window): Promise<void> {
+  const row = getSelectedRow(win);
+  const source = row ? await getRowItems(row) : null;
+  if (!source) {
+    Zotero.alert(
+      win,
+      "AI Tagger",
+      "Select a collection, saved search or library to evaluate.",
+    );
+    return;
+  }
+
+  const where = describeSource(source);
+  const tagged = source.items.filter(
+    (item) => getCuratedTags(item).length > 0,
+  );
+  if (tagged.length === 0) {
+    Zotero.alert(
+      win,
+      "AI Tagger",
+      `No items with manual tags found in ${where}. The evaluation compares suggestions with the tags you gave items by hand.`,
+    );
+    return;
+  }
+
+  const ps = Components.classes[
+    "@mozilla.org/embedcomp/prompt-service;1"
+  ].getService(Components.interfaces.nsIPromptService);
+  const size = {
+    value: String(Math.min(DEFAULT_EVALUATION_SAMPLE, tagged.length)),
+  };
+  if (
+    !ps.prompt(
+      win,
+      "AI Tagger - Evaluate",
+      `${tagged.length} item(s) in ${where} have manual tags. How many should be sampled?`,
+      size,
+      "",
+      { value: false },
+    )
+  ) {
+    return;
+  }
+  const sampleSize = Math.min(parseInt(size.value) || 0, tagged.length);
+  if (sampleSize <= 0) return;
+
+  const first = chooseEvaluationVariant(win, "Settings to evaluate:", false);
+  if (!first) return;
+  const second = chooseEvaluationVariant(
+    win,
+    `Compare "${first.label}" with:`,
+    true,
+  );
+  const variants = second ? [first, second] : [first];
+
+  const requests = sampleSize * variants.length;
+  if (
+    !ps.confirm(
+      win,
+      "AI Tagger - Evaluate",
+      `Tag ${sampleSize} sampled item(s) with their tags hidden, using ${variants.map((v) => `"${v.label}"`).join(" and ")}?\n\nThis sends about ${requests} request(s) to the AI, bypassing the response cache. Nothing is applied to the items.`,
+    )
+  ) {
+    return;
+  }
+
+  const sample = sampleTaggedItems(tagged, sampleSize);
+  const { io, refresh, finish } = openProgressDialog(
+    win,
+    `Evaluating on ${sample.length} items…`,
+    0,
+    requests,
+  );
+  const controller = new AbortController();
+  io.onPause = io.onCancel = () => {
+    io.state.status = "Cancelling…";
+    refresh();
+    controller.abort();
+  };
+
+  let report: EvaluationReport;
+  try {
+    report = await evaluate(
+      sample,
+      variants,
+      (current, total) => {
+        io.state.current = current;
+        io.state.total = total;
+        refresh();
+      },
+      controller.signal,
+    );
+  } catch (error) {
+    finish(
+      controller.signal.aborted
+        ? "⚠️ Evaluation cancelled"
+        : `Error: ${(error as Error).message}`,
+    );
+    return;
+  }
+
+  const best = report.variants.reduce((a, b) =>
+    b.overall.f1 > a.overall.f1 ? b : a,
+  );
+  finish(
+    `📊 Evaluated ${report.items} items: best F1 ${Math.round(best.overall.f1 * 100)}% (${best.label})`,
+  );
+
+  const save = ps.confirm(
+    win,
+    "AI Tagger - Evaluation",
+    `Results on ${report.items} sampled item(s) from ${where}:\n\n${report.variants.map(describeVariantResult).join("\n\n")}\n\nSave the full results, per tag and per item, as CSV or JSON?`,
+  );
+  if (!save) return;
+  const path = await exportEvaluation(win, report);
+  if (path) {
+    Zotero.alert(win, "AI Tagger", `Saved the evaluation to:\n${path}`);
+  }
+}
+
+/**
+ * Apply an exported (and possibly edited) suggestion report.
+ */
+async function handleApplyReport(win: Window): Promise<void> {
+  try {
+    const report = await importReport(win);
+    if (!report) return;
+
+    const entries = report.entries.filter((e) => e.suggestedTags.length > 0);
+    const tagCount = entries.reduce((sum, e) => sum + e.suggestedTags.length, 0);
+    if (entries.length === 0) {
+      Zotero.alert(win, "AI Tagger", "The report has no tags to apply.");
+      return;
+    }
+
+    const ps = Components.classes[
+      "@mozilla.org/embedcomp/prompt-service;1"
+    ].getService(Components.interfaces.nsIPromptService);
+    const confirmed = ps.confirm(
+      win,
+      "AI Tagger",
+      `Apply ${tagCount} tag(s) from the report to ${entries.length} item(s)?\n\nThe run is journaled and can be undone.`,
+    );
+    if (!confirmed) return;
+
+    const result = await applyReport(report);
+    let message = `Added ${result.tags} tag(s) to ${result.items} item(s).`;
+    if (result.missing > 0) {
+      message += `\n\n${result.missing} item(s) in the report no longer exist.`;
+    }
+    Zotero.alert(win, "AI Tagger", message);
+  } catch (error) {
+    Zotero.alert(
+      win,
+      "AI Tagger",
+      `Could not apply the report: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Describe a saved batch job for display in prompts.
+ */
+function describeJob(job: BatchJob): string {
+  const status = getActiveBatch(job.jobID)
+    ? "running"
+    : getActiveWait(job.jobID)
+      ? "waiting for the provider"
+      : job.status === "paused"
+        ? "paused"
+        : "interrupted";
+  const mode = job.remote
+    ? job.remote.answers
+      ? ", Batch API results ready"
+      : `, Batch API ${job.remote.status}`
+    : job.settings.dryRun
+      ? ", dry run"
+      : "";
+  const date = new Date(job.createdAt).toLocaleString();
+  return `${job.label} — ${job.completedIDs.length} / ${job.itemIDs.length} done (${status}${mode}), started ${date}`;
+}
+
+/**
+ * Resume a saved batch job with the settings it was started with.
+ * Items deleted since the job was saved are dropped. A Batch API job
+ * first waits for the provider, reusing `progress` if given.
+ */
+async function resumeJob(
+  win: Window,
+  job: BatchJob,
+  progress?: ReturnType<typeof openProgressDialog>,
+): Promise<void> {
+  if (job.remote && !job.remote.answers) {
+    if (!(await waitForProviderBatch(win, job, progress))) return;
+  }
+
+  const items = (Zotero.Items.get(job.itemIDs) as Zotero.Item[]).filter(
+    (item) => item && !item.deleted,
+  );
+  if (items.length < job.itemIDs.length) {
+    const present = new Set(items.map((item) => item.id));
+    job.itemIDs = job.itemIDs.filter((id) => present.has(id));
+    job.completedIDs = job.completedIDs.filter((id) => present.has(id));
+  }
+
+  await handleBatchItems(win, items, job.settings.confirmationMode, {
+    bypassCache: job.settings.bypassCache,
+    dryRun: job.settings.dryRun,
+    label: job.label,
+    job,
+  });
+}
+
+/**
+ * Let the user pick a saved job and pause, resume or discard it.
+ */
+async function handleManageJobs(win: Window): Promise<void> {
+  const jobs = await listJobs();
+  if (jobs.length === 0) {
+    Zotero.alert(win, "AI Tagger", "No saved AI tagging jobs.");
+    return;
+  }
+
+  const ps = Components.classes[
+    "@mozilla.org/embedcomp/prompt-service;1"
+  ].getService(Components.interfaces.nsIPromptService);
+
+  const selected = { value: 0 };
+  const ok = ps.select(
+    win,
+    "AI Tagger - Jobs",
+    "Select a tagging job:",
+    jobs.map(describeJob),
+    selected,
+  );
+  if (!ok) return;
+
+  const job = jobs[selected.value];
+  const active = getActiveBatch(job.jobID) || getActiveWait(job.jobID);
+
+  // Button 1 is returned when the dialog is closed, so it must be harmless
+  const button = ps.confirmEx(
+    win,
+    "AI Tagger - Jobs",
+    describeJob(job),
+    ps.BUTTON_POS_0 * ps.BUTTON_TITLE_IS_STRING +
+      ps.BUTTON_POS_1 * ps.BUTTON_TITLE_CANCEL +
+      ps.BUTTON_POS_2 * ps.BUTTON_TITLE_IS_STRING,
+    active ? "Pause" : "Resume",
+    null,
+    "Discard",
+    null,
+    {},
+  );
+
+  if (button === 0) {
+    if (active) {
+      active.pause();
+    } else {
+      await resumeJob(win, job);
+    }
+  } else if (button === 2) {
+    if (active) {
+      active.cancel();
+    } else {
+      await cancelOfflineBatch(job);
+      await removeJob(job.jobID);
+    }
+  }
+}
+
+let resumeOffered = false;
+
+/**
+ * Offer to resume jobs left unfinished by an earlier session.
+ * Only asks once per session, for the first main window.
+ */
+export async function offerToResumeJobs(win: Window): Promise<void> {
+  if (resumeOffered) return;
+  resumeOffered = true;
+
+  const jobs = (await listJobs()).filter(
+    (job) => !getActiveBatch(job.jobID) && !getActiveWait(job.jobID),
+  );
+  if (jobs.length === 0) return;
+
+  const ps = Components.classes[
+    "@mozilla.org/embedcomp/prompt-service;1"
+  ].getService(Components.interfaces.nsIPromptService);
+
+  const button = ps.confirmEx(
+    win,
+    "AI Tagger - Jobs",
+    `${jobs.length} unfinished AI tagging job(s) found:\n\n${jobs.map(describeJob).join("\n")}\n\nResume them now? You can also manage them later from Tools → AI Tagging Jobs….`,
+    ps.BUTTON_POS_0 * ps.BUTTON_TITLE_IS_STRING +
+      ps.BUTTON_POS_1 * ps.BUTTON_TITLE_IS_STRING +
+      ps.BUTTON_POS_2 * ps.BUTTON_TITLE_IS_STRING,
+    "Resume",
+    "Later",
+    "Discard All",
+    null,
+    {},
+  );
+
+  if (button === 0) {
+    // Batch API jobs still waiting for the provider only poll, possibly for
+    // a day, and their answers need no requests, so they run alongside
+    for (const job of jobs.filter((j) => j.remote && !j.remote.answers)) {
+      resumeJob(win, job).catch((e) =>
+        Zotero.debug(`[AI Tagger] Could not resume job ${job.jobID}: ${e}`),
+      );
+    }
+    // The rest one at a time, so jobs don't compete for the rate limit
+    for (const job of jobs.filter((j) => !j.remote || j.remote.answers)) {
+      await resumeJob(win, job);
+    }
+  } else if (button === 2) {
+    for (const job of jobs) {
+      await cancelOfflineBatch(job);
+      await removeJob(job.jobID);
+    }
+  }
+}
+
+/**
+ * Describe a journaled run for display in prompts.
+ */
+function describeRun(run: TaggingRun): string {
+  const tagCount = run.items.reduce((sum, e) => sum + e.tags.length, 0);
+  const date = new Date(run.timestamp).toLocaleString();
+  return `${date} — ${run.model}: ${tagCount} tag(s) on ${run.items.length} item(s)`;
+}
+
+/**
+ * Confirm and undo a single run, then report the result.
+ */
+async function confirmAndUndoRun(
+  win: Window,
+  run: TaggingRun,
+): Promise<void> {
+  const ps = Components.classes[
+    "@mozilla.org/embedcomp/prompt-service;1"
+  ].getService(Components.interfaces.nsIPromptService);
+
+  const confirmed = ps.confirm(
+    win,
+    "AI Tagger - Undo",
+    `Remove the tags added by this run?\n\n${describeRun(run)}\n\nTags added by other means are not affected.`,
+  );
+  if (!confirmed) return;
+
+  try {
+    const result = await undoRun(run.runID);
+    Zotero.alert(
+      win,
+      "AI Tagger",
+      `Removed ${result.tags} tag(s) from ${result.items} item(s).`,
+    );
+  } catch (error) {
+    Zotero.alert(win, "AI Tagger", `Undo failed: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Undo the most recent tagging run that hasn't been undone yet.
+ */
+async function handleUndoLastRun(win: Window): Promise<void> {
+  const run = await getLastRun();
+  if (!run) {
+    Zotero.alert(win, "AI Tagger", "No AI tagging runs to undo.");
+    return;
+  }
+  await confirmAndUndoRun(win, run);
+}
+
+/**
+ * Let the user pick a journaled run to undo.
+ */
+async function handleUndoRun(win: Window): Promise<void> {
+  const runs = (await listRuns()).filter((r) => !r.undone);
+  if (runs.length === 0) {
+    Zotero.alert(win, "AI Tagger", "No AI tagging runs to undo.");
+    return;
+  }
+
+  const ps = Components.classes[
+    "@mozilla.org/embedcomp/prompt-service;1"
+  ].getService(Components.interfaces.nsIPromptService);
+
+  const selected = { value: 0 };
+  const ok = ps.select(
+    win,
+    "AI Tagger - Undo",
+    "Select a tagging run to undo:",
+    runs.map(describeRun),
+    selected,
+  );
+  if (!ok) return;
+
+  await confirmAndUndoRun(win, runs[selected.value]);
+}
+
+/**
+ * Show the collection menu entries only for rows that can be tagged, with
+ * labels for the kind of row (collection, saved search, library, …).
+ */
+function updateCollectionMenu(win: Window): void {
+  const row = getSelectedRow(win);
+  const kind = row ? getSourceKind(row) : null;
+  for (const id of COLLECTION_MENU_IDS) {
+    const el = win.document.getElementById(id) as XULElement | null;
+    if (!el) continue;
+    el.hidden = !kind;
+    if (kind) el.setAttribute("data-l10n-args", JSON.stringify({ kind }));
+  }
+
+  // Profiles are assigned to collections only
+  const profileMenu = win.document.getElementById(
+    MENU_COLLECTION_PROFILE_ID,
+  ) as XULElement | null;
+  if (profileMenu) {
+    profileMenu.hidden = kind !== "collection";
+    if (kind === "collection") {
+      fillProfileMenu(win, row!.ref as Zotero.Collection);
+    }
+  }
+}
+
+/**
+ * List the profiles in the collection's "Tagging Profile" submenu, with
+ * the one assigned to it checked.
+ */
+function fillProfileMenu(win: Window, collection: Zotero.Collection): void {
+  const doc = win.document;
+  const popup = doc.getElementById(MENU_COLLECTION_PROFILE_ID + "-popup");
+  if (!popup) return;
+  popup.replaceChildren();
+
+  const assigned = getAssignedProfile(collection);
+  const addChoice = (label: string, name: string | null) => {
+    const item = doc.createXULElement("menuitem");
+    item.setAttribute("type", "radio");
+    item.setAttribute("label", label);
+    item.setAttribute("checked", String(name === assigned));
+    item.addEventListener("command", () => {
+      assignProfile(collection, name);
+      Zotero.debug(
+        `[AI Tagger] Profile for "${collection.name}": ${name || "default"}`,
+      );
+    });
+    popup.appendChild(item);
+  };
+
+  addChoice("Default (global settings)", null);
+  const names = Object.keys(getProfiles()).sort();
+  if (names.length > 0) {
+    popup.appendChild(doc.createXULElement("menuseparator"));
+  }
+  for (const name of names) addChoice(name, name);
+
+  // An assignment whose profile was deleted from the preferences
+  if (assigned && !names.includes(assigned)) {
+    addChoice(`${assigned} (missing, uses default)`, assigned);
+  }
 }
 
 /**
@@ -261,8 +1351,35 @@ export function registerMenu(win: Window): void {
     menuItem.id = MENU_ID;
     menuItem.setAttribute("data-l10n-id", "menuitem-generate-tags");
     menuItem.setAttribute("label", "Generate AI Tags");
-    menuItem.addEventListener("command", () => handleTagSelected(win));
+    // Shift-click bypasses the response cache
+    menuItem.addEventListener("command", (event) =>
+      handleTagSelected(win, { bypassCache: (event as MouseEvent).shiftKey }),
+    );
     itemMenu.appendChild(menuItem);
+
+    const retagItem = doc.createXULElement("menuitem");
+    retagItem.id = MENU_RETAG_ID;
+    retagItem.setAttribute("data-l10n-id", "menuitem-retag");
+    retagItem.setAttribute("label", "Re-tag with AI (Force)");
+    retagItem.addEventListener("command", (event) =>
+      handleTagSelected(win, {
+        force: true,
+        bypassCache: (event as MouseEvent).shiftKey,
+      }),
+    );
+    itemMenu.appendChild(retagItem);
+
+    const dryRunItem = doc.createXULElement("menuitem");
+    dryRunItem.id = MENU_DRY_RUN_ID;
+    dryRunItem.setAttribute("data-l10n-id", "menuitem-dry-run");
+    dryRunItem.setAttribute("label", "Preview AI Tags (Dry Run)…");
+    dryRunItem.addEventListener("command", (event) =>
+      handleTagSelected(win, {
+        dryRun: true,
+        bypassCache: (event as MouseEvent).shiftKey,
+      }),
+    );
+    itemMenu.appendChild(dryRunItem);
   }
 
   // --- Collection context menu ---
@@ -274,6 +1391,12 @@ export function registerMenu(win: Window): void {
     sep.id = MENU_COLLECTION_ID + "-sep";
     collectionMenu.appendChild(sep);
 
+    const onShowing = (event: Event) => {
+      if (event.target === collectionMenu) updateCollectionMenu(win);
+    };
+    collectionMenu.addEventListener("popupshowing", onShowing);
+    collectionMenuListeners.set(win, onShowing);
+
     const menuItem = doc.createXULElement("menuitem");
     menuItem.id = MENU_COLLECTION_ID;
     menuItem.setAttribute(
@@ -285,6 +1408,88 @@ export function registerMenu(win: Window): void {
       handleTagCollection(win),
     );
     collectionMenu.appendChild(menuItem);
+
+    const retagItem = doc.createXULElement("menuitem");
+    retagItem.id = MENU_COLLECTION_RETAG_ID;
+    retagItem.setAttribute("data-l10n-id", "menuitem-retag-collection");
+    retagItem.setAttribute("label", "Re-tag Entire Collection (Force)");
+    retagItem.addEventListener("command", () =>
+      handleTagCollection(win, { force: true }),
+    );
+    collectionMenu.appendChild(retagItem);
+
+    const dryRunItem = doc.createXULElement("menuitem");
+    dryRunItem.id = MENU_COLLECTION_DRY_RUN_ID;
+    dryRunItem.setAttribute("data-l10n-id", "menuitem-dry-run-collection");
+    dryRunItem.setAttribute("label", "Preview AI Tags for Collection (Dry Run)…");
+    dryRunItem.addEventListener("command", () =>
+      handleTagCollection(win, { dryRun: true }),
+    );
+    collectionMenu.appendChild(dryRunItem);
+
+    const offlineItem = doc.createXULElement("menuitem");
+    offlineItem.id = MENU_COLLECTION_OFFLINE_ID;
+    offlineItem.setAttribute(
+      "data-l10n-id",
+      "menuitem-offline-batch-collection",
+    );
+    offlineItem.setAttribute("label", "AI Tag Collection via Batch API…");
+    offlineItem.addEventListener("command", () =>
+      handleTagCollection(win, {}, true),
+    );
+    collectionMenu.appendChild(offlineItem);
+
+    const evaluateItem = doc.createXULElement("menuitem");
+    evaluateItem.id = MENU_COLLECTION_EVALUATE_ID;
+    evaluateItem.setAttribute("data-l10n-id", "menuitem-evaluate-collection");
+    evaluateItem.setAttribute("label", "Evaluate AI Tagging on Collection…");
+    evaluateItem.addEventListener("command", () => handleEvaluate(win));
+    collectionMenu.appendChild(evaluateItem);
+
+    const profileMenu = doc.createXULElement("menu");
+    profileMenu.id = MENU_COLLECTION_PROFILE_ID;
+    profileMenu.setAttribute("data-l10n-id", "menu-collection-profile");
+    profileMenu.setAttribute("label", "AI Tagging Profile");
+    const profilePopup = doc.createXULElement("menupopup");
+    profilePopup.id = MENU_COLLECTION_PROFILE_ID + "-popup";
+    profileMenu.appendChild(profilePopup);
+    collectionMenu.appendChild(profileMenu);
+  }
+
+  // --- Tools menu ---
+  const toolsMenu = doc.getElementById("menu_ToolsPopup");
+  if (toolsMenu) {
+    const sep = doc.createXULElement("menuseparator");
+    sep.id = MENU_UNDO_LAST_ID + "-sep";
+    toolsMenu.appendChild(sep);
+
+    const undoLast = doc.createXULElement("menuitem");
+    undoLast.id = MENU_UNDO_LAST_ID;
+    undoLast.setAttribute("data-l10n-id", "menuitem-undo-last-run");
+    undoLast.setAttribute("label", "Undo Last AI Tagging Run");
+    undoLast.addEventListener("command", () => handleUndoLastRun(win));
+    toolsMenu.appendChild(undoLast);
+
+    const undoRunItem = doc.createXULElement("menuitem");
+    undoRunItem.id = MENU_UNDO_RUN_ID;
+    undoRunItem.setAttribute("data-l10n-id", "menuitem-undo-run");
+    undoRunItem.setAttribute("label", "Undo AI Tagging Run…");
+    undoRunItem.addEventListener("command", () => handleUndoRun(win));
+    toolsMenu.appendChild(undoRunItem);
+
+    const applyReportItem = doc.createXULElement("menuitem");
+    applyReportItem.id = MENU_APPLY_REPORT_ID;
+    applyReportItem.setAttribute("data-l10n-id", "menuitem-apply-report");
+    applyReportItem.setAttribute("label", "Apply AI Tag Report…");
+    applyReportItem.addEventListener("command", () => handleApplyReport(win));
+    toolsMenu.appendChild(applyReportItem);
+
+    const jobsItem = doc.createXULElement("menuitem");
+    jobsItem.id = MENU_JOBS_ID;
+    jobsItem.setAttribute("data-l10n-id", "menuitem-jobs");
+    jobsItem.setAttribute("label", "AI Tagging Jobs…");
+    jobsItem.addEventListener("command", () => handleManageJobs(win));
+    toolsMenu.appendChild(jobsItem);
   }
 
   Zotero.debug("[AI Tagger] Menus registered");
@@ -296,11 +1501,31 @@ export function registerMenu(win: Window): void {
 export function unregisterMenu(win: Window): void {
   const doc = win.document;
 
+  const onShowing = collectionMenuListeners.get(win);
+  if (onShowing) {
+    doc
+      .getElementById("zotero-collectionmenu")
+      ?.removeEventListener("popupshowing", onShowing);
+    collectionMenuListeners.delete(win);
+  }
+
   for (const id of [
     MENU_ID,
     MENU_ID + "-sep",
     MENU_COLLECTION_ID,
     MENU_COLLECTION_ID + "-sep",
+    MENU_UNDO_LAST_ID,
+    MENU_UNDO_LAST_ID + "-sep",
+    MENU_UNDO_RUN_ID,
+    MENU_DRY_RUN_ID,
+    MENU_COLLECTION_DRY_RUN_ID,
+    MENU_APPLY_REPORT_ID,
+    MENU_JOBS_ID,
+    MENU_COLLECTION_OFFLINE_ID,
+    MENU_RETAG_ID,
+    MENU_COLLECTION_RETAG_ID,
+    MENU_COLLECTION_PROFILE_ID,
+    MENU_COLLECTION_EVALUATE_ID,
   ]) {
     const el = doc.getElementById(id);
     if (el) el.remove();
@@ -0,0 +1,288 @@
+/**
+ * Offline batch mode: send a large run through the provider's Batch API
+ * (/files and /batches) instead of live requests, wait for it to finish,
+ * then apply the answers through the normal batch path.
+ */
+
+import {
+  buildBatchLine,
+  cancelBatch,
+  createBatch,
+  downloadFile,
+  getBatch,
+  parseBatchOutputLine,
+  parseChatResponse,
+  sleep,
+  uploadBatchFile,
+  type BatchOutputLine,
+  type RemoteBatchStatus,
+} from "./ai-service";
+import {
+  createJob,
+  removeJob,
+  saveJob,
+  type BatchJob,
+  type JobSettings,
+} from "./batch-jobs";
+import type { BatchHandle } from "./batch-processor";
+import { getUsage } from "./cost-estimator";
+import { createRun } from "./run-journal";
+import {
+  parseTagAnswer,
+  prepareTaggingRequest,
+  type TagAnswer,
+} from "./tag-engine";
+
+/** How often to ask the provider for the batch status. */
+const POLL_INTERVAL = 60000;
+
+/** Status checks that may fail in a row before waiting gives up. */
+const MAX_POLL_FAILURES = 5;
+
+/** Provider statuses after which the batch won't change any more. */
+const FINAL_STATUSES = ["completed", "failed", "expired", "cancelled"];
+
+export interface OfflineWait {
+  /** Stop waiting, cancel the provider batch and discard the job */
+  cancel: () => void;
+  /** Stop waiting and keep the job for resuming */
+  pause: () => void;
+  /** Resolves true once the answers are in the job, false if stopped */
+  promise: Promise<boolean>;
+}
+
+// Jobs being waited on in this session, by job ID
+const activeWaits = new Map<string, Pick<BatchHandle, "cancel" | "pause">>();
+
+function failedAnswer(error: string): TagAnswer {
+  return {
+    tags: [],
+    reasoning: "",
+    usage: { promptTokens: 0, completionTokens: 0 },
+    error,
+  };
+}
+
+/**
+ * Build the tagging requests for some items, upload them and start a
+ * Batch API job. Returns the saved job; items that couldn't be prepared
+ * are recorded as errors.
+ *
+ * @param onProgress - Called with the number of items prepared so far
+ * @param signal - Stops preparing; nothing is uploaded
+ */
+export async function submitOfflineBatch(
+  items: Zotero.Item[],
+  label: string,
+  settings: JobSettings,
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<BatchJob> {
+  const requests: Record<string, number> = {};
+  const errors: Record<number, string> = {};
+  const lines: string[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    if (signal?.aborted) throw new Error("Cancelled");
+    const item = items[i];
+    try {
+      const prepared = await prepareTaggingRequest(item);
+      if ("request" in prepared) {
+        const customID = `item-${item.id}`;
+        lines.push(await buildBatchLine(customID, prepared.request));
+        requests[customID] = item.id;
+      } else {
+        errors[item.id] = prepared.error || "Could not build the request";
+      }
+    } catch (e) {
+      errors[item.id] = (e as Error).message;
+    }
+    onProgress?.(i + 1, items.length);
+  }
+
+  if (lines.length === 0) {
+    throw new Error("None of the items could be prepared for tagging");
+  }
+
+  const inputFileID = await uploadBatchFile(
+    lines.join("\n") + "\n",
+    `ai-tagger-${Date.now()}.jsonl`,
+  );
+  const batch = await createBatch(inputFileID);
+  Zotero.debug(
+    `[AI Tagger] Submitted ${lines.length} requests as batch ${batch.id}`,
+  );
+
+  return await createJob(
+    label,
+    items.map((item) => item.id),
+    createRun().runID,
+    settings,
+    {
+      batchID: batch.id,
+      inputFileID,
+      status: batch.status,
+      requests,
+      errors,
+    },
+  );
+}
+
+/**
+ * Turn one line of a batch output or error file into an answer.
+ */
+function readOutputLine(entry: BatchOutputLine): TagAnswer {
+  const response = entry.response;
+  if (entry.error || !response || response.status_code !== 200) {
+    return failedAnswer(
+      entry.error?.message ||
+        response?.body?.error?.message ||
+        `HTTP ${response?.status_code}`,
+    );
+  }
+
+  const chat = parseChatResponse(response.body);
+  try {
+    return parseTagAnswer(chat);
+  } catch (e) {
+    return {
+      ...failedAnswer(
+        `Could not read the AI's answer: ${(e as Error).message}`,
+      ),
+      usage: getUsage([], chat),
+    };
+  }
+}
+
+/**
+ * Download a finished batch's output and error files into the job's
+ * answers. Every item gets an answer, failed ones with an error.
+ */
+async function collectAnswers(
+  job: BatchJob,
+  status: RemoteBatchStatus,
+  signal: AbortSignal,
+): Promise<void> {
+  const remote = job.remote!;
+  const answers: Record<number, TagAnswer> = {};
+  for (const [itemID, error] of Object.entries(remote.errors)) {
+    answers[Number(itemID)] = failedAnswer(error);
+  }
+
+  for (const fileID of [status.output_file_id, status.error_file_id]) {
+    if (!fileID) continue;
+    const text = await downloadFile(fileID, signal);
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      const entry = parseBatchOutputLine(line);
+      if (!entry) {
+        Zotero.debug(`[AI Tagger] Skipping unreadable batch output line`);
+        continue;
+      }
+      const itemID = remote.requests[entry.custom_id];
+      if (itemID !== undefined) answers[itemID] = readOutputLine(entry);
+    }
+  }
+
+  for (const itemID of Object.values(remote.requests)) {
+    if (!answers[itemID]) {
+      answers[itemID] = failedAnswer(
+        `No answer from the provider batch (${status.status})`,
+      );
+    }
+  }
+  remote.answers = answers;
+}
+
+/**
+ * Poll a job's provider batch until it finishes, then store the answers
+ * in the job. Polling survives restarts: resume the saved job to continue.
+ *
+ * @param onStatus - Called with each status the provider reports
+ */
+export function waitForOfflineBatch(
+  job: BatchJob,
+  onStatus: (status: RemoteBatchStatus) => void,
+): OfflineWait {
+  const remote = job.remote!;
+  const controller = new AbortController();
+  let cancelled = false;
+
+  const cancel = () => {
+    cancelled = true;
+    controller.abort();
+  };
+  const pause = () => controller.abort();
+
+  const promise = (async (): Promise<boolean> => {
+    activeWaits.set(job.jobID, { cancel, pause });
+    job.status = "running";
+    await saveJob(job, true);
+
+    let failures = 0;
+    try {
+      for (;;) {
+        let status: RemoteBatchStatus | null = null;
+        try {
+          status = await getBatch(remote.batchID, controller.signal);
+          failures = 0;
+        } catch (e) {
+          if (controller.signal.aborted) throw e;
+          if (++failures >= MAX_POLL_FAILURES) throw e;
+          Zotero.debug(`[AI Tagger] Batch status check failed: ${e}`);
+        }
+
+        if (status) {
+          remote.status = status.status;
+          await saveJob(job);
+          onStatus(status);
+          if (FINAL_STATUSES.includes(status.status)) {
+            await collectAnswers(job, status, controller.signal);
+            await saveJob(job, true);
+            return true;
+          }
+        }
+        await sleep(POLL_INTERVAL, controller.signal);
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) throw e;
+      if (cancelled) {
+        await cancelOfflineBatch(job);
+        await removeJob(job.jobID);
+      } else {
+        job.status = "paused";
+        await saveJob(job, true);
+      }
+      return false;
+    } finally {
+      activeWaits.delete(job.jobID);
+    }
+  })();
+
+  return { cancel, pause, promise };
+}
+
+/**
+ * Ask the provider to stop a job's batch if it is still running.
+ * Failures are logged, since the job is being discarded anyway.
+ */
+export async function cancelOfflineBatch(job: BatchJob): Promise<void> {
+  const remote = job.remote;
+  if (!remote || remote.answers || FINAL_STATUSES.includes(remote.status)) {
+    return;
+  }
+  try {
+    await cancelBatch(remote.batchID);
+  } catch (e) {
+    Zotero.debug(`[AI Tagger] Could not cancel batch ${remote.batchID}: ${e}`);
+  }
+}
+
+/**
+ * Get the wait in progress for a job in this session, if any.
+ */
+export function getActiveWait(
+  jobID: string,
+): Pick<BatchHandle, "cancel" | "pause"> | undefined {
+  return activeWaits.get(jobID);
+}
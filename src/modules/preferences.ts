@@ -1,4 +1,20 @@
-import { testConnection as testAIConnection } from "./ai-service";
+import {
+  listModels,
+  testConnection as testAIConnection,
+} from "./ai-service";
+import { describeCapabilities } from "./capabilities";
+import {
+  BUILTIN_TEMPLATE,
+  DEFAULT_TEMPLATE_KEY,
+  PLACEHOLDERS,
+  getTemplate,
+  getTemplates,
+  renderTemplate,
+  setTemplate,
+  type PromptValues,
+} from "./prompt-templates";
+import { clearCache, getCacheStats } from "./response-cache";
+import { getPromptPreviewValues } from "./tag-engine";
 
 const PREF_PREFIX = "extensions.zotero.ai-tagger.";
 
@@ -47,15 +63,81 @@ export function unregisterPrefs(): void {
 export function onProviderChange(provider: string): void {
   if (provider === "openai") {
     setPref("baseURL", "https://api.openai.com/v1");
+  } else if (provider === "anthropic") {
+    setPref("baseURL", "https://api.anthropic.com/v1");
+  } else if (provider === "local") {
+    // Ollama's default; llama.cpp and LM Studio use http://localhost:<port>/v1
+    setPref("baseURL", "http://localhost:11434");
   }
   // For "custom", user fills in their own baseURL
 }
 
+/**
+ * Get the document hosting the preference pane.
+ */
+function getPrefsDocument(): Document | undefined {
+  const prefsWin = Services.wm.getMostRecentWindow("zotero:pref");
+  return (prefsWin || Zotero.getMainWindow())?.document;
+}
+
+/**
+ * Fetch the provider's model list into the model dropdown.
+ */
+export async function refreshModels(): Promise<void> {
+  const doc = getPrefsDocument();
+  if (!doc) return;
+
+  const menulist = doc.getElementById("pref-model-list") as any;
+  const popup = doc.getElementById("pref-model-list-popup");
+  const resultLabel = doc.getElementById("pref-test-result");
+  if (!menulist || !popup) return;
+
+  if (resultLabel) {
+    resultLabel.setAttribute("value", "Loading models…");
+    resultLabel.style.color = "";
+  }
+
+  try {
+    const models = await listModels();
+    popup.replaceChildren();
+    for (const model of models) {
+      const item = doc.createXULElement("menuitem");
+      item.setAttribute("label", model);
+      item.setAttribute("value", model);
+      popup.appendChild(item);
+    }
+    menulist.value = getPref("model") as string;
+    if (resultLabel) {
+      resultLabel.setAttribute("value", `Found ${models.length} model(s)`);
+    }
+  } catch (error) {
+    if (resultLabel) {
+      resultLabel.setAttribute(
+        "value",
+        `❌ Failed: ${(error as Error).message}`,
+      );
+      resultLabel.style.color = "red";
+    }
+  }
+}
+
+/**
+ * Called when a model is picked from the model dropdown.
+ */
+export function onModelSelect(model: string): void {
+  if (!model) return;
+  setPref("model", model);
+  const input = getPrefsDocument()?.getElementById(
+    "pref-model",
+  ) as HTMLInputElement | null;
+  if (input) input.value = model;
+}
+
 /**
  * Test the API connection from the preferences panel.
  */
 export async function testConnection(): Promise<void> {
-  const doc = Zotero.getMainWindow()?.document;
+  const doc = getPrefsDocument();
   if (!doc) return;
 
   const resultLabel = doc.getElementById("pref-test-result");
@@ -65,9 +147,12 @@ export async function testConnection(): Promise<void> {
   }
 
   try {
-    const model = await testAIConnection();
+    const { model, capabilities } = await testAIConnection();
     if (resultLabel) {
-      resultLabel.setAttribute("value", `✅ Connected! Model: ${model}`);
+      resultLabel.setAttribute(
+        "value",
+        `✅ Connected! Model: ${model} — supports ${describeCapabilities(capabilities)}`,
+      );
       resultLabel.style.color = "green";
     }
   } catch (error) {
@@ -78,3 +163,190 @@ export async function testConnection(): Promise<void> {
     }
   }
 }
+
+/**
+ * Called when the preference pane is loaded.
+ */
+export function onPaneLoad(): void {
+  updateCacheStats();
+  initTemplateEditor();
+}
+
+/**
+ * Show response cache statistics in the preferences panel.
+ */
+export async function updateCacheStats(): Promise<void> {
+  const label = getPrefsDocument()?.getElementById("pref-cache-stats");
+  if (!label) return;
+
+  const stats = await getCacheStats();
+  label.setAttribute(
+    "value",
+    `${stats.entries} cached response(s) — this session: ${stats.hits} hit(s), ${stats.misses} miss(es)`,
+  );
+}
+
+/**
+ * Clear the response cache from the preferences panel.
+ */
+export async function clearResponseCache(): Promise<void> {
+  await clearCache();
+  await updateCacheStats();
+}
+
+/** Item types that are never tagged, so get no template. */
+const UNTAGGED_ITEM_TYPES = ["note", "attachment", "annotation"];
+
+// Prompt values of the item shown in the template preview
+let previewValues: PromptValues | null = null;
+
+/**
+ * Get the item type whose template is being edited, or "default".
+ */
+function getEditedTemplateKey(doc: Document): string {
+  const menulist = doc.getElementById("pref-template-type") as any;
+  return menulist?.value || DEFAULT_TEMPLATE_KEY;
+}
+
+/**
+ * Get the template an item type falls back to when it has none of its own.
+ */
+function getFallbackTemplate(key: string): string {
+  return key === DEFAULT_TEMPLATE_KEY
+    ? BUILTIN_TEMPLATE
+    : getTemplate(DEFAULT_TEMPLATE_KEY);
+}
+
+/**
+ * Fill the item type list and the placeholder help, load the default
+ * template and preview it for the selected item.
+ */
+function initTemplateEditor(): void {
+  const doc = getPrefsDocument();
+  const popup = doc?.getElementById("pref-template-type-popup");
+  if (!doc || !popup) return;
+
+  const types = Zotero.ItemTypes.getTypes()
+    .filter((type) => !UNTAGGED_ITEM_TYPES.includes(type.name))
+    .map((type) => ({
+      name: type.name,
+      label: Zotero.ItemTypes.getLocalizedString(type.name),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  for (const type of types) {
+    const item = doc.createXULElement("menuitem");
+    item.setAttribute("label", type.label);
+    item.setAttribute("value", type.name);
+    popup.appendChild(item);
+  }
+
+  doc
+    .getElementById("pref-template-placeholders")
+    ?.setAttribute(
+      "value",
+      PLACEHOLDERS.map((name) => `{{${name}}}`).join(" "),
+    );
+
+  onTemplateTypeChange();
+  refreshTemplatePreview();
+}
+
+/**
+ * Load the template of the item type picked in the template editor.
+ * Types without their own template show the one they fall back to.
+ */
+export function onTemplateTypeChange(): void {
+  const doc = getPrefsDocument();
+  const textarea = doc?.getElementById(
+    "pref-template-text",
+  ) as HTMLTextAreaElement | null;
+  if (!doc || !textarea) return;
+
+  const key = getEditedTemplateKey(doc);
+  textarea.value = getTemplates()[key] || getFallbackTemplate(key);
+  updateTemplatePreview();
+}
+
+/**
+ * Save the edited template and update the preview. A template identical
+ * to its fallback isn't stored, so later changes to the fallback apply.
+ */
+export function onTemplateInput(): void {
+  const doc = getPrefsDocument();
+  const textarea = doc?.getElementById(
+    "pref-template-text",
+  ) as HTMLTextAreaElement | null;
+  if (!doc || !textarea) return;
+
+  const key = getEditedTemplateKey(doc);
+  const text = textarea.value;
+  setTemplate(key, text === getFallbackTemplate(key) ? "" : text);
+  updateTemplatePreview();
+}
+
+/**
+ * Remove the edited item type's own template.
+ */
+export function resetTemplate(): void {
+  const doc = getPrefsDocument();
+  if (!doc) return;
+  setTemplate(getEditedTemplateKey(doc), "");
+  onTemplateTypeChange();
+}
+
+/**
+ * Load the prompt values of the item selected in the main window and
+ * preview the edited template with them.
+ */
+export async function refreshTemplatePreview(): Promise<void> {
+  const doc = getPrefsDocument();
+  const label = doc?.getElementById("pref-template-preview-item");
+  if (!doc || !label) return;
+
+  previewValues = null;
+  const item = Zotero.getMainWindow()?.ZoteroPane?.getSelectedItems()[0];
+  if (!item) {
+    label.setAttribute("value", "Select an item in the main window to preview");
+    updateTemplatePreview();
+    return;
+  }
+
+  label.setAttribute("value", "Loading…");
+  try {
+    const values = await getPromptPreviewValues(item);
+    // An error TagResult if the item can't be tagged
+    if ("itemID" in values) {
+      label.setAttribute("value", `❌ ${values.error}`);
+    } else {
+      previewValues = values as PromptValues;
+      label.setAttribute(
+        "value",
+        `Preview for "${item.getField("title") || "(untitled)"}"`,
+      );
+    }
+  } catch (error) {
+    label.setAttribute("value", `❌ ${(error as Error).message}`);
+  }
+  updateTemplatePreview();
+}
+
+/**
+ * Render the edited template with the preview item's values.
+ */
+function updateTemplatePreview(): void {
+  const doc = getPrefsDocument();
+  const textarea = doc?.getElementById(
+    "pref-template-text",
+  ) as HTMLTextAreaElement | null;
+  const preview = doc?.getElementById(
+    "pref-template-preview",
+  ) as HTMLTextAreaElement | null;
+  if (!textarea || !preview) return;
+
+  preview.value = previewValues
+    ? renderTemplate(
+        textarea.value || getFallbackTemplate(getEditedTemplateKey(doc!)),
+        previewValues,
+      )
+    : "";
+}
@@ -0,0 +1,154 @@
+import { getPref } from "./preferences";
+import { hasProvenance } from "./provenance";
+import type { TaggingRun } from "./run-journal";
+import { readJSON, writeJSON } from "./storage";
+
+const PROCESSED_FILE = "processed.json";
+
+/** Writes are coalesced so a batch run doesn't rewrite the file per item. */
+const SAVE_DELAY = 2000;
+
+/** When and by which run an item was last sent to the AI. */
+export interface ProcessedEntry {
+  runID: string;
+  model: string;
+  processedAt: string;
+}
+
+export interface ItemSelection {
+  /** Items to send to the AI */
+  items: Zotero.Item[];
+  /** Items skipped because they were already processed */
+  processed: number;
+  /** Items skipped because they already have enough tags */
+  tagged: number;
+}
+
+let entries: Map<string, ProcessedEntry> | null = null;
+let loading: Promise<Map<string, ProcessedEntry>> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Load the processed-items record into memory once per session.
+ */
+function load(): Promise<Map<string, ProcessedEntry>> {
+  if (entries) return Promise.resolve(entries);
+  if (!loading) {
+    loading = readJSON<Record<string, ProcessedEntry>>(PROCESSED_FILE, {}).then(
+      (data) => {
+        entries = new Map(Object.entries(data));
+        loading = null;
+        return entries;
+      },
+    );
+  }
+  return loading;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    if (!entries) return;
+    writeJSON(PROCESSED_FILE, Object.fromEntries(entries)).catch((e) =>
+      Zotero.debug(`[AI Tagger] Failed to save processed items: ${e}`),
+    );
+  }, SAVE_DELAY);
+}
+
+/**
+ * Write any pending changes to disk immediately.
+ */
+export async function flushProcessed(): Promise<void> {
+  if (!saveTimer) return;
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  if (entries) await writeJSON(PROCESSED_FILE, Object.fromEntries(entries));
+}
+
+// Keyed by library and item key, which survive syncing and restarts
+function itemKey(item: Zotero.Item): string {
+  return `${item.libraryID}/${item.key}`;
+}
+
+/**
+ * Record that a model tagged an item in a run, once its suggestions were
+ * applied or rejected.
+ */
+export async function markProcessed(
+  item: Zotero.Item,
+  run: TaggingRun,
+  model: string,
+): Promise<void> {
+  const processed = await load();
+  processed.set(itemKey(item), {
+    runID: run.runID,
+    model,
+    processedAt: new Date().toISOString(),
+  });
+  scheduleSave();
+}
+
+/**
+ * Forget the items a run processed, e.g. when the run is undone, so
+ * they are tagged again by the next run.
+ */
+export async function unmarkRun(runID: string): Promise<void> {
+  const processed = await load();
+  let changed = false;
+  for (const [key, entry] of processed) {
+    if (entry.runID === runID) {
+      processed.delete(key);
+      changed = true;
+    }
+  }
+  if (changed) scheduleSave();
+}
+
+/**
+ * Check whether an item was already processed: it is in the record, has
+ * the marker tag, or has a provenance line in its Extra field.
+ */
+export async function isProcessed(item: Zotero.Item): Promise<boolean> {
+  if ((await load()).has(itemKey(item))) return true;
+  const markerTag = ((getPref("markerTag") as string) || "").trim();
+  if (markerTag && item.hasTag(markerTag)) return true;
+  return hasProvenance(item);
+}
+
+/**
+ * Count an item's tags, leaving out tags with the ignored prefix such as
+ * the marker tag.
+ */
+function countTags(item: Zotero.Item): number {
+  const prefixFilter = (getPref("tagPrefixFilter") as string) || "_";
+  return item
+    .getTags()
+    .filter((t: { tag: string }) => !t.tag.startsWith(prefixFilter)).length;
+}
+
+/**
+ * Pick the items a batch run should send to the AI. Unless `force` is
+ * set, items that were already processed are skipped when the
+ * "skipProcessed" preference is on, and items with at least
+ * "fewerTagsThan" tags are skipped when it is above 0.
+ */
+export async function selectItemsToTag(
+  items: Zotero.Item[],
+  force = false,
+): Promise<ItemSelection> {
+  const selection: ItemSelection = { items: [], processed: 0, tagged: 0 };
+  const skipProcessed = !force && (getPref("skipProcessed") as boolean);
+  const fewerTagsThan = force ? 0 : (getPref("fewerTagsThan") as number) || 0;
+
+  for (const item of items) {
+    if (skipProcessed && (await isProcessed(item))) {
+      selection.processed++;
+    } else if (fewerTagsThan > 0 && countTags(item) >= fewerTagsThan) {
+      selection.tagged++;
+    } else {
+      selection.items.push(item);
+    }
+  }
+  return selection;
+}
@@ -0,0 +1,181 @@
+/**
+ * Named tagging profiles: bundles of settings that override the global
+ * preferences for items in the collections a profile is assigned to.
+ * Items outside any assigned collection use the global preferences, the
+ * default profile.
+ */
+
+import { getConnection, type Connection } from "./ai-service";
+import { getPref, setPref } from "./preferences";
+
+/** Settings a profile can override. Unset fields use the preferences. */
+export interface TaggingProfile {
+  provider?: string;
+  baseURL?: string;
+  apiKey?: string;
+  model?: string;
+  tagSource?: "existing" | "new";
+  maxTags?: number;
+  temperature?: number;
+  systemPrompt?: string;
+  /** Prompt template for every item type, see prompt-templates.ts */
+  promptTemplate?: string;
+  /** Only library tags matching this regular expression are offered */
+  vocabularyFilter?: string;
+  includeFullText?: boolean;
+  maxFullTextLength?: number;
+  longDocumentMode?: boolean;
+  fewShotExamples?: number;
+}
+
+/** Profile fields that override the preference of the same name. */
+export type ProfileSetting =
+  | "tagSource"
+  | "maxTags"
+  | "temperature"
+  | "systemPrompt"
+  | "includeFullText"
+  | "maxFullTextLength"
+  | "longDocumentMode"
+  | "fewShotExamples";
+
+/** The profile that applies to an item. */
+export interface ResolvedProfile {
+  /** Profile name, or null for the default profile */
+  name: string | null;
+  profile: TaggingProfile;
+}
+
+const DEFAULT_PROFILE: ResolvedProfile = { name: null, profile: {} };
+
+function readJSONPref<T>(key: string): Record<string, T> {
+  try {
+    const parsed = JSON.parse((getPref(key) as string) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (e) {
+    Zotero.debug(`[AI Tagger] Invalid ${key} preference: ${e}`);
+    return {};
+  }
+}
+
+/**
+ * Get the defined profiles by name.
+ */
+export function getProfiles(): Record<string, TaggingProfile> {
+  return readJSONPref<TaggingProfile>("profiles");
+}
+
+// Keyed by library and collection key, which survive syncing
+function collectionKey(collection: Zotero.Collection): string {
+  return `${collection.libraryID}/${collection.key}`;
+}
+
+/**
+ * Get the name of the profile assigned directly to a collection, if any.
+ */
+export function getAssignedProfile(
+  collection: Zotero.Collection,
+): string | null {
+  return (
+    readJSONPref<string>("profileAssignments")[collectionKey(collection)] ||
+    null
+  );
+}
+
+/**
+ * Assign a profile to a collection and its subcollections, or remove the
+ * assignment with null.
+ */
+export function assignProfile(
+  collection: Zotero.Collection,
+  name: string | null,
+): void {
+  const assignments = readJSONPref<string>("profileAssignments");
+  if (name) {
+    assignments[collectionKey(collection)] = name;
+  } else {
+    delete assignments[collectionKey(collection)];
+  }
+  setPref("profileAssignments", JSON.stringify(assignments));
+}
+
+/**
+ * Pick the profile for an item from its collections. A profile assigned to
+ * a collection also applies to its subcollections; the assignment nearest
+ * to one of the item's collections wins, and ties go to the first profile
+ * name alphabetically. Falls back to the default profile.
+ */
+export function getItemProfile(item: Zotero.Item): ResolvedProfile {
+  const profiles = getProfiles();
+  const assignments = readJSONPref<string>("profileAssignments");
+  if (Object.keys(assignments).length === 0) return DEFAULT_PROFILE;
+
+  let best: { name: string; depth: number } | null = null;
+  for (const collectionID of item.getCollections()) {
+    let collection = Zotero.Collections.get(collectionID) as
+      Zotero.Collection | false;
+    for (let depth = 0; collection; depth++) {
+      const name = assignments[collectionKey(collection)];
+      if (name && profiles[name]) {
+        if (
+          !best ||
+          depth < best.depth ||
+          (depth === best.depth && name < best.name)
+        ) {
+          best = { name, depth };
+        }
+        break;
+      }
+      collection = collection.parentID
+        ? (Zotero.Collections.get(collection.parentID) as Zotero.Collection)
+        : false;
+    }
+  }
+
+  return best
+    ? { name: best.name, profile: profiles[best.name] }
+    : DEFAULT_PROFILE;
+}
+
+/**
+ * Get a setting from a profile, or from the preferences if the profile
+ * doesn't set it.
+ */
+export function getProfileSetting(
+  profile: TaggingProfile,
+  key: ProfileSetting,
+): string | number | boolean {
+  return profile[key] ?? getPref(key);
+}
+
+/**
+ * Get the connection for a profile: its provider, base URL, API key and
+ * model where set, the configured ones otherwise.
+ */
+export function getProfileConnection(profile: TaggingProfile): Connection {
+  return getConnection({
+    provider: profile.provider,
+    baseURL: profile.baseURL,
+    apiKey: profile.apiKey,
+    model: profile.model,
+  });
+}
+
+/**
+ * Keep only the library tags that match a profile's vocabulary filter
+ * (case-insensitive). An invalid filter is ignored.
+ */
+export function filterVocabulary(
+  tags: string[],
+  profile: TaggingProfile,
+): string[] {
+  if (!profile.vocabularyFilter) return tags;
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(profile.vocabularyFilter, "i");
+  } catch (e) {
+    Zotero.debug(`[AI Tagger] Invalid vocabulary filter: ${e}`);
+    return tags;
+  }
+  return tags.filter((tag) => pattern.test(tag));
+}
@@ -0,0 +1,142 @@
+/**
+ * User-editable prompt templates for the tagging request, with
+ * {{placeholders}} and a template per Zotero item type.
+ *
+ * Besides {{name}} placeholders, templates support sections:
+ * {{#name}}…{{/name}} is kept only if the value is non-empty (or true),
+ * {{^name}}…{{/name}} only if it is empty (or false).
+ */
+
+import { getPref, setPref } from "./preferences";
+
+/** Key of the template used for item types without their own. */
+export const DEFAULT_TEMPLATE_KEY = "default";
+
+/** The built-in template, matching the plugin's original prompt. */
+export const BUILTIN_TEMPLATE = `Analyze this document and suggest relevant tags.
+
+DOCUMENT:
+Title: {{title}}
+Authors: {{creators}}
+Type: {{itemType}}
+Publication: {{publicationTitle}}
+Date: {{date}}
+Abstract: {{abstract}}
+Current Tags: {{currentTags}}
+DOI: {{doi}}
+URL: {{url}}
+Extra: {{extra}}{{#fulltext}}
+
+{{fulltextHeading}}:
+{{fulltext}}{{/fulltext}}{{#examples}}
+
+SIMILAR ITEMS FROM THIS LIBRARY AND THEIR TAGS:
+{{examples}}
+
+Follow the tagging conventions these examples show.{{/examples}}{{#existingOnly}}
+
+AVAILABLE TAGS TO CHOOSE FROM:
+{{vocabulary}}
+
+Please suggest up to {{maxTags}} relevant tags from the available list that would categorize this document well. {{#fulltext}}Use both the metadata and full text content to make accurate suggestions.{{/fulltext}}{{^fulltext}}Base suggestions on the available metadata.{{/fulltext}} Only suggest tags that exist in the available list above.{{/existingOnly}}{{^existingOnly}}{{#vocabulary}}
+
+EXISTING LIBRARY TAGS (for reference):
+{{vocabulary}}{{/vocabulary}}
+
+Please suggest up to {{maxTags}} relevant tags that would categorize this document well. {{#fulltext}}Use both the metadata and full text content to make accurate suggestions.{{/fulltext}}{{^fulltext}}Base suggestions on the available metadata.{{/fulltext}} You may suggest existing tags from the list above or create new descriptive tags.{{/existingOnly}}
+
+For each tag, give a confidence from 0 to 1 that it applies to this document, and a one-sentence justification. Use low confidence for borderline tags rather than leaving them out.`;
+
+/** Values a template can refer to. */
+export type PromptValues = Record<string, string | number | boolean>;
+
+/** Placeholders listed in the preferences panel, in display order. */
+export const PLACEHOLDERS = [
+  "title",
+  "creators",
+  "itemType",
+  "publicationTitle",
+  "date",
+  "abstract",
+  "currentTags",
+  "doi",
+  "url",
+  "extra",
+  "fulltext",
+  "fulltextHeading",
+  "examples",
+  "vocabulary",
+  "maxTags",
+  "existingOnly",
+];
+
+/** A {{#name}}…{{/name}} or {{^name}}…{{/name}} section, or a {{name}} placeholder. */
+const TAG_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}|\{\{(\w+)\}\}/g;
+
+function isFilled(value: string | number | boolean | undefined): boolean {
+  return value !== undefined && value !== false && value !== "";
+}
+
+/**
+ * Render a template with the given values. Unknown placeholders are left
+ * as-is, so typos show up in the preview. Sections and placeholders are
+ * rendered in one pass over the template text, so values that contain
+ * "{{…}}" (e.g. an abstract quoting a template) are inserted verbatim.
+ */
+export function renderTemplate(template: string, values: PromptValues): string {
+  return template.replace(
+    TAG_PATTERN,
+    (
+      match,
+      kind: string | undefined,
+      section: string | undefined,
+      body: string | undefined,
+      name: string | undefined,
+    ) => {
+      if (kind && section) {
+        return isFilled(values[section]) === (kind === "#")
+          ? renderTemplate(body || "", values)
+          : "";
+      }
+      return name && name in values ? String(values[name]) : match;
+    },
+  );
+}
+
+/**
+ * Read the saved templates, keyed by item type (or "default").
+ */
+export function getTemplates(): Record<string, string> {
+  try {
+    const parsed = JSON.parse((getPref("promptTemplates") as string) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (e) {
+    Zotero.debug(`[AI Tagger] Invalid promptTemplates preference: ${e}`);
+    return {};
+  }
+}
+
+/**
+ * Save a template for an item type (or "default"). An empty template
+ * removes it, so the type falls back to the default template.
+ */
+export function setTemplate(key: string, template: string): void {
+  const templates = getTemplates();
+  if (template.trim()) {
+    templates[key] = template;
+  } else {
+    delete templates[key];
+  }
+  setPref("promptTemplates", JSON.stringify(templates));
+}
+
+/**
+ * Get the template for an item type: its own if set, else the default
+ * template, else the built-in one.
+ */
+export function getTemplate(itemType: string): string {
+  const templates = getTemplates();
+  return (
+    templates[itemType] || templates[DEFAULT_TEMPLATE_KEY] || BUILTIN_TEMPLATE
+  );
+}
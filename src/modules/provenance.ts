@@ -0,0 +1,120 @@
+/**
+ * Provenance records on items: which model added which AI tags, when,
+ * and in which run, written to the Extra field or a child note.
+ */
+
+import { getPref } from "./preferences";
+import type { TaggingRun } from "./run-journal";
+
+/** Starts every provenance line in the Extra field. */
+const EXTRA_PREFIX = "AI Tagger:";
+
+/** Title of the child note that collects provenance lines. */
+const NOTE_HEADING = "AI Tagger provenance";
+
+/** Where provenance is recorded, from the "provenance" preference. */
+export type ProvenanceTarget = "none" | "extra" | "note";
+
+export function getProvenanceTarget(): ProvenanceTarget {
+  const value = getPref("provenance") as string;
+  return value === "extra" || value === "note" ? value : "none";
+}
+
+/**
+ * Describe the tags a model added in a run, e.g.
+ * "AI Tagger: ecology; soil — model gpt-4.1-mini, 2026-01-31, run lx2k-ab12cd".
+ */
+export function formatProvenance(
+  tags: string[],
+  model: string,
+  run?: TaggingRun,
+): string {
+  const date = new Date().toISOString().substring(0, 10);
+  const runPart = run ? `, run ${run.runID}` : "";
+  return `${EXTRA_PREFIX} ${tags.join("; ")} — model ${model}, ${date}${runPart}`;
+}
+
+/**
+ * Append a provenance line to an item's Extra field. The caller saves the item.
+ */
+export function addProvenanceToExtra(item: Zotero.Item, line: string): void {
+  const extra = (item.getField("extra") as string) || "";
+  item.setField("extra", extra ? `${extra}\n${line}` : line);
+}
+
+/**
+ * Check whether an item's Extra field has a provenance line.
+ */
+export function hasProvenance(item: Zotero.Item): boolean {
+  const extra = (item.getField("extra") as string) || "";
+  return extra.split("\n").some((line) => line.startsWith(EXTRA_PREFIX));
+}
+
+/**
+ * Find the item's provenance note, if it has one.
+ */
+function findProvenanceNote(item: Zotero.Item): Zotero.Item | null {
+  for (const noteID of item.getNotes()) {
+    const note = Zotero.Items.get(noteID) as Zotero.Item;
+    if (note && note.getNote().includes(NOTE_HEADING)) return note;
+  }
+  return null;
+}
+
+/**
+ * Append a provenance line to the item's provenance note, creating the
+ * note if needed. The item must already be saved.
+ */
+export async function addProvenanceNote(
+  item: Zotero.Item,
+  line: string,
+): Promise<void> {
+  const paragraph = `<p>${Zotero.Utilities.htmlSpecialChars(line)}</p>`;
+  let note = findProvenanceNote(item);
+  if (note) {
+    note.setNote(note.getNote() + paragraph);
+  } else {
+    note = new Zotero.Item("note");
+    note.libraryID = item.libraryID;
+    note.parentID = item.id;
+    note.setNote(`<h2>${NOTE_HEADING}</h2>${paragraph}`);
+  }
+  await note.saveTx();
+}
+
+/**
+ * Remove a run's provenance lines from an item's Extra field and note,
+ * e.g. when the run is undone. Saves the note itself; returns true if the
+ * Extra field changed, in which case the caller saves the item.
+ */
+export async function removeProvenance(
+  item: Zotero.Item,
+  runID: string,
+): Promise<boolean> {
+  const marker = `, run ${runID}`;
+  const isRunLine = (line: string) =>
+    line.startsWith(EXTRA_PREFIX) && line.endsWith(marker);
+
+  const extra = (item.getField("extra") as string) || "";
+  const lines = extra.split("\n");
+  const kept = lines.filter((line) => !isRunLine(line));
+  if (kept.length < lines.length) item.setField("extra", kept.join("\n"));
+
+  const note = findProvenanceNote(item);
+  if (note) {
+    const html = note.getNote();
+    // The prefix and run ID have no characters that need escaping
+    const paragraphs = html.match(/<p>[\s\S]*?<\/p>/g) || [];
+    const remaining = paragraphs.filter(
+      (p) => !isRunLine(p.slice(3, -4).trim()),
+    );
+    if (remaining.length === 0) {
+      await note.eraseTx();
+    } else if (remaining.length < paragraphs.length) {
+      note.setNote(`<h2>${NOTE_HEADING}</h2>${remaining.join("")}`);
+      await note.saveTx();
+    }
+  }
+
+  return kept.length < lines.length;
+}
@@ -0,0 +1,427 @@
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ResponseFormat,
+} from "./ai-service";
+
+/**
+ * How a request asks for structured output:
+ * - json_schema: the provider enforces the schema (OpenAI response_format, Ollama format)
+ * - tools: a forced tool call whose parameters are the schema
+ * - json_object: the provider guarantees JSON, the prompt describes the shape
+ * - prompt: only the prompt asks for JSON
+ */
+export type StructuredOutputMode =
+  "json_schema" | "tools" | "json_object" | "prompt";
+
+/** Capability-dependent choices for building a request body. */
+export interface BodyOptions {
+  structuredOutput: StructuredOutputMode;
+  /** Newer OpenAI models reject max_tokens in favour of max_completion_tokens */
+  maxTokensParam: "max_tokens" | "max_completion_tokens";
+}
+
+/**
+ * Adapter between the plugin's OpenAI-shaped requests/responses and a
+ * provider's wire format.
+ */
+export interface ProviderAdapter {
+  /** Endpoint for chat requests, given the configured base URL */
+  buildURL(baseURL: string): string;
+  buildHeaders(apiKey: string): Record<string, string>;
+  /** Endpoint that lists the models available to this key/server */
+  buildModelsURL(baseURL: string): string;
+  /** Extract model names from the models endpoint response */
+  parseModels(data: any): string[];
+  /** Endpoint for text embeddings; undefined if the provider has none */
+  buildEmbeddingsURL?(baseURL: string): string;
+  /** Extract embedding vectors (in input order) from the embeddings response */
+  parseEmbeddings?(data: any): number[][];
+  /** Root of the /files and /batches endpoints; undefined if there is no Batch API */
+  buildBatchRootURL?(baseURL: string): string;
+  /** Per-request timeout in milliseconds */
+  timeout: number;
+  /** Structured output modes worth probing for, best first ("prompt" always works) */
+  structuredOutputModes: StructuredOutputMode[];
+  /** Mode every model supports, used when a probe can't run (default "prompt") */
+  fallbackStructuredOutput?: StructuredOutputMode;
+  buildBody(
+    request: ChatCompletionRequest,
+    model: string,
+    options: BodyOptions,
+  ): Record<string, unknown>;
+  /** Convert the provider's JSON response to a ChatCompletionResponse */
+  parseResponse(data: any): ChatCompletionResponse;
+}
+
+const DEFAULT_TIMEOUT = 60000;
+/** Local models can take minutes to load and process a long prompt. */
+const LOCAL_TIMEOUT = 300000;
+
+/** Anthropic requires max_tokens on every request. */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+const ANTHROPIC_VERSION = "2023-06-01";
+/** Anthropic accepts temperatures from 0 to 1 (OpenAI allows up to 2). */
+const ANTHROPIC_MAX_TEMPERATURE = 1;
+
+/**
+ * Join a base URL and endpoint path, unless the user already included it.
+ */
+function joinURL(baseURL: string, path: string): string {
+  // Ensure no trailing slash
+  const base = baseURL.replace(/\/+$/, "");
+  if (base.endsWith(path)) {
+    return base;
+  }
+  return `${base}${path}`;
+}
+
+/**
+ * Strip a chat endpoint the user may have pasted into the base URL.
+ */
+function stripEndpoint(baseURL: string, path: string): string {
+  const base = baseURL.replace(/\/+$/, "");
+  return base.endsWith(path) ? base.slice(0, -path.length) : base;
+}
+
+/**
+ * Parse an OpenAI-style `{ data: [{ id }] }` model list.
+ */
+function parseModelList(data: any): string[] {
+  return ((data?.data as Array<{ id: string }>) || []).map((m) => m.id);
+}
+
+/**
+ * An OpenAI-style function tool whose parameters are the response schema.
+ */
+function buildFunctionTool(format: ResponseFormat): Record<string, unknown> {
+  const { name, schema } = format.json_schema;
+  return {
+    type: "function",
+    function: {
+      name,
+      description: "Return the result in this exact structure.",
+      parameters: schema,
+    },
+  };
+}
+
+/**
+ * OpenAI /chat/completions, also used by OpenAI-compatible endpoints.
+ */
+const openaiAdapter: ProviderAdapter = {
+  buildURL(baseURL) {
+    return joinURL(baseURL, "/chat/completions");
+  },
+
+  buildHeaders(apiKey) {
+    return {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    };
+  },
+
+  buildModelsURL(baseURL) {
+    return joinURL(stripEndpoint(baseURL, "/chat/completions"), "/models");
+  },
+
+  parseModels: parseModelList,
+
+  buildEmbeddingsURL(baseURL) {
+    return joinURL(stripEndpoint(baseURL, "/chat/completions"), "/embeddings");
+  },
+
+  parseEmbeddings(data) {
+    return ((data?.data as Array<{ index: number; embedding: number[] }>) || [])
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding);
+  },
+
+  buildBatchRootURL(baseURL) {
+    return stripEndpoint(baseURL, "/chat/completions");
+  },
+
+  timeout: DEFAULT_TIMEOUT,
+
+  structuredOutputModes: ["json_schema", "tools", "json_object"],
+
+  buildBody(request, model, options) {
+    const body: Record<string, unknown> = {
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      [options.maxTokensParam]: request.max_tokens,
+    };
+    const format = request.response_format;
+    if (format) {
+      switch (options.structuredOutput) {
+        case "json_schema":
+          body.response_format = format;
+          break;
+        case "json_object":
+          body.response_format = { type: "json_object" };
+          break;
+        case "tools":
+          body.tools = [buildFunctionTool(format)];
+          body.tool_choice = {
+            type: "function",
+            function: { name: format.json_schema.name },
+          };
+          break;
+      }
+    }
+    return body;
+  },
+
+  parseResponse(data) {
+    // A forced tool call carries the answer in its arguments
+    const message = data.choices?.[0]?.message;
+    const toolCall = message?.tool_calls?.[0];
+    if (toolCall && !message.content) {
+      message.content = toolCall.function?.arguments || "";
+    }
+    return data as ChatCompletionResponse;
+  },
+};
+
+/**
+ * Anthropic Messages API (/v1/messages).
+ *
+ * System messages move to the top-level `system` field, and structured output
+ * is enforced by forcing a single tool call whose input schema is the tag schema.
+ */
+const anthropicAdapter: ProviderAdapter = {
+  buildURL(baseURL) {
+    return joinURL(baseURL, "/messages");
+  },
+
+  buildHeaders(apiKey) {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      // Zotero's fetch may send an Origin header, which Anthropic rejects without this
+      "anthropic-dangerous-direct-browser-access": "true",
+    };
+  },
+
+  buildModelsURL(baseURL) {
+    return joinURL(stripEndpoint(baseURL, "/messages"), "/models");
+  },
+
+  parseModels: parseModelList,
+
+  timeout: DEFAULT_TIMEOUT,
+
+  structuredOutputModes: ["tools"],
+
+  // Every Messages API model supports forced tool use
+  fallbackStructuredOutput: "tools",
+
+  buildBody(request, model, options) {
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const messages = request.messages
+      .filter((m) => m.role !== "system")
+      .map((m) => ({ role: m.role, content: m.content }));
+
+    const body: Record<string, unknown> = {
+      model,
+      messages,
+      max_tokens: request.max_tokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+    };
+    if (system) body.system = system;
+    if (request.temperature !== undefined) {
+      body.temperature = Math.min(
+        ANTHROPIC_MAX_TEMPERATURE,
+        Math.max(0, request.temperature),
+      );
+    }
+
+    if (options.structuredOutput === "tools" && request.response_format) {
+      const { name, schema } = request.response_format.json_schema;
+      body.tools = [
+        {
+          name,
+          description: "Return the result in this exact structure.",
+          input_schema: schema,
+        },
+      ];
+      body.tool_choice = { type: "tool", name };
+    }
+    return body;
+  },
+
+  parseResponse(data) {
+    const blocks: any[] = data.content || [];
+    const toolUse = blocks.find((b) => b.type === "tool_use");
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks
+          .filter((b) => b.type === "text")
+          .map((b) => b.text)
+          .join("");
+
+    const inputTokens = data.usage?.input_tokens ?? 0;
+    const outputTokens = data.usage?.output_tokens ?? 0;
+
+    return {
+      choices: [
+        {
+          message: { role: "assistant", content },
+          finish_reason: data.stop_reason === "max_tokens" ? "length" : "stop",
+        },
+      ],
+      model: data.model,
+      usage: data.usage
+        ? {
+            prompt_tokens: inputTokens,
+            completion_tokens: outputTokens,
+            total_tokens: inputTokens + outputTokens,
+          }
+        : undefined,
+    };
+  },
+};
+
+/**
+ * Local OpenAI-compatible servers (llama.cpp, LM Studio, Ollama's /v1).
+ * These usually run without an API key.
+ */
+const localOpenAIAdapter: ProviderAdapter = {
+  ...openaiAdapter,
+
+  buildHeaders(apiKey) {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    return headers;
+  },
+
+  timeout: LOCAL_TIMEOUT,
+};
+
+/**
+ * Ollama's native /api/chat endpoint.
+ * Structured output goes through the `format` parameter, which takes a JSON schema.
+ */
+const ollamaAdapter: ProviderAdapter = {
+  buildURL(baseURL) {
+    return joinURL(stripEndpoint(baseURL, "/api/chat"), "/api/chat");
+  },
+
+  buildHeaders: localOpenAIAdapter.buildHeaders,
+
+  buildModelsURL(baseURL) {
+    return joinURL(stripEndpoint(baseURL, "/api/chat"), "/api/tags");
+  },
+
+  parseModels(data) {
+    return ((data?.models as Array<{ name: string }>) || []).map((m) => m.name);
+  },
+
+  buildEmbeddingsURL(baseURL) {
+    return joinURL(stripEndpoint(baseURL, "/api/chat"), "/api/embed");
+  },
+
+  parseEmbeddings(data) {
+    return (data?.embeddings as number[][]) || [];
+  },
+
+  timeout: LOCAL_TIMEOUT,
+
+  structuredOutputModes: ["json_schema", "tools", "json_object"],
+
+  buildBody(request, model, options) {
+    const modelOptions: Record<string, unknown> = {};
+    if (request.temperature !== undefined) {
+      modelOptions.temperature = request.temperature;
+    }
+    if (request.max_tokens !== undefined) {
+      modelOptions.num_predict = request.max_tokens;
+    }
+
+    const body: Record<string, unknown> = {
+      model,
+      messages: request.messages,
+      stream: false,
+      options: modelOptions,
+    };
+    const format = request.response_format;
+    if (format) {
+      switch (options.structuredOutput) {
+        case "json_schema":
+          body.format = format.json_schema.schema;
+          break;
+        case "json_object":
+          body.format = "json";
+          break;
+        case "tools":
+          // Ollama can't force a tool call; the probe checks the model uses it
+          body.tools = [buildFunctionTool(format)];
+          break;
+      }
+    }
+    return body;
+  },
+
+  parseResponse(data) {
+    // Ollama returns tool arguments as an object rather than a string
+    const toolCall = data.message?.tool_calls?.[0];
+    const content = toolCall
+      ? JSON.stringify(toolCall.function?.arguments ?? {})
+      : data.message?.content || "";
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+
+    return {
+      choices: [
+        {
+          message: {
+            role: data.message?.role || "assistant",
+            content,
+          },
+          finish_reason: data.done_reason === "length" ? "length" : "stop",
+        },
+      ],
+      model: data.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  },
+};
+
+/**
+ * Whether a local base URL points at an OpenAI-compatible /v1 API rather
+ * than Ollama's native API (e.g. http://localhost:11434).
+ */
+function isOpenAICompatiblePath(baseURL: string): boolean {
+  return /\/v1(\/|$)/.test(baseURL);
+}
+
+/**
+ * Get the adapter for a provider preference value.
+ * "openai" and "custom" both speak the OpenAI chat completions format.
+ * "local" uses Ollama's native API unless the base URL ends in /v1.
+ */
+export function getProviderAdapter(
+  provider: string,
+  baseURL: string,
+): ProviderAdapter {
+  switch (provider) {
+    case "anthropic":
+      return anthropicAdapter;
+    case "local":
+      return isOpenAICompatiblePath(baseURL)
+        ? localOpenAIAdapter
+        : ollamaAdapter;
+    default:
+      return openaiAdapter;
+  }
+}
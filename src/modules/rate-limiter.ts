@@ -0,0 +1,303 @@
+import { getPref } from "./preferences";
+
+/** Longest backoff between retries. */
+const MAX_BACKOFF = 60000;
+
+/** First backoff step; doubles with each attempt. */
+const BASE_BACKOFF = 1000;
+
+/** Lowest fraction of the configured rate after repeated 429s. */
+const MIN_RATE_FACTOR = 0.1;
+
+/** Rate recovered per successful request after a 429 (additive increase). */
+const RATE_RECOVERY_STEP = 0.05;
+
+const MINUTE = 60000;
+
+interface Waiter {
+  tokens: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/** Returned by acquire(); call once the request has finished. */
+export type ReleaseFn = (actualTokens?: number) => void;
+
+/**
+ * Random delay between half and all of an exponential step, so clients
+ * that were throttled together don't retry together.
+ */
+export function backoffWithJitter(attempt: number): number {
+  const step = Math.min(BASE_BACKOFF * Math.pow(2, attempt), MAX_BACKOFF);
+  return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
+/**
+ * Parse a duration such as "1s", "6m0s", "20ms" or "1h2m3.5s"
+ * (OpenAI's x-ratelimit-reset-* format) into milliseconds.
+ */
+function parseDuration(value: string): number | null {
+  const units: Record<string, number> = {
+    h: 3600000,
+    m: 60000,
+    s: 1000,
+    ms: 1,
+  };
+  const parts = value.trim().match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) return null;
+  let total = 0;
+  for (const part of parts) {
+    const [, num, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+    total += parseFloat(num) * units[unit];
+  }
+  return total;
+}
+
+/**
+ * Parse a reset header into a wait in milliseconds. Accepts a duration
+ * ("6m0s"), plain seconds ("12"), or a date (Anthropic's RFC 3339 resets).
+ */
+function parseReset(value: string | null): number | null {
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value) * 1000;
+  const duration = parseDuration(value);
+  if (duration !== null) return duration;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parse `retry-after` (seconds or an HTTP date) or `retry-after-ms` into
+ * a wait in milliseconds, or null if neither is present.
+ */
+export function parseRetryAfter(headers: Headers): number | null {
+  const ms = headers.get("retry-after-ms");
+  if (ms && !isNaN(parseFloat(ms))) return parseFloat(ms);
+
+  const value = headers.get("retry-after");
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Shared scheduler for all API requests in the session.
+ *
+ * Requests wait for a concurrency slot and for room in two token buckets:
+ * requests per minute and tokens per minute. The buckets follow the
+ * provider's x-ratelimit-* headers when present, and a 429 pauses every
+ * request until the provider's reset time, then lowers the rate until
+ * requests succeed again.
+ */
+class RateLimiter {
+  private queue: Waiter[] = [];
+  private active = 0;
+  private requestBucket: number | null = null;
+  private tokenBucket: number | null = null;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private rateFactor = 1;
+  // Limits learned from x-ratelimit-limit-* headers, used when prefs are 0
+  private headerRPM = 0;
+  private headerTPM = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private get maxConcurrent(): number {
+    return (getPref("concurrency") as number) || 3;
+  }
+
+  private get rpm(): number {
+    return (
+      ((getPref("requestsPerMinute") as number) || this.headerRPM) *
+      this.rateFactor
+    );
+  }
+
+  private get tpm(): number {
+    return (
+      ((getPref("tokensPerMinute") as number) || this.headerTPM) *
+      this.rateFactor
+    );
+  }
+
+  /**
+   * Top up both buckets for the time elapsed since the last refill.
+   * A limit of 0 means unlimited.
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+
+    const rpm = this.rpm;
+    this.requestBucket =
+      rpm > 0
+        ? Math.min(rpm, (this.requestBucket ?? rpm) + (elapsed * rpm) / MINUTE)
+        : null;
+
+    const tpm = this.tpm;
+    this.tokenBucket =
+      tpm > 0
+        ? Math.min(tpm, (this.tokenBucket ?? tpm) + (elapsed * tpm) / MINUTE)
+        : null;
+  }
+
+  /**
+   * How long until the waiter at the front of the queue can start, or 0 if now.
+   */
+  private waitTime(tokens: number): number {
+    const now = Date.now();
+    if (this.blockedUntil > now) return this.blockedUntil - now;
+    if (this.active >= this.maxConcurrent) return Infinity;
+
+    let wait = 0;
+    if (this.requestBucket !== null && this.requestBucket < 1) {
+      wait = Math.max(wait, ((1 - this.requestBucket) * MINUTE) / this.rpm);
+    }
+    if (this.tokenBucket !== null) {
+      // A request larger than the whole bucket goes once the bucket is full
+      const needed = Math.min(tokens, this.tpm);
+      if (this.tokenBucket < needed) {
+        wait = Math.max(
+          wait,
+          ((needed - this.tokenBucket) * MINUTE) / this.tpm,
+        );
+      }
+    }
+    return Math.ceil(wait);
+  }
+
+  /**
+   * Start as many queued requests as the limits allow, in order, and
+   * schedule another pass for when the next one can start.
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      this.refill();
+      const next = this.queue[0];
+      const wait = this.waitTime(next.tokens);
+      if (wait === Infinity) return; // woken by release()
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.pump(), wait);
+        return;
+      }
+
+      this.queue.shift();
+      this.active++;
+      if (this.requestBucket !== null) this.requestBucket -= 1;
+      if (this.tokenBucket !== null) this.tokenBucket -= next.tokens;
+      next.signal?.removeEventListener("abort", next.onAbort!);
+      next.resolve();
+    }
+  }
+
+  /**
+   * Wait for permission to send a request of about `tokens` tokens.
+   * Rejects if the signal is aborted while waiting.
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<ReleaseFn> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error("Request cancelled"));
+    }
+
+    return new Promise<ReleaseFn>((resolve, reject) => {
+      let released = false;
+      const release: ReleaseFn = (actualTokens) => {
+        if (released) return;
+        released = true;
+        this.active--;
+        // Correct the token bucket once the real usage is known
+        if (actualTokens !== undefined && this.tokenBucket !== null) {
+          this.tokenBucket -= actualTokens - tokens;
+        }
+        this.pump();
+      };
+
+      const waiter: Waiter = {
+        tokens,
+        resolve: () => resolve(release),
+        reject,
+        signal,
+      };
+      waiter.onAbort = () => {
+        this.queue = this.queue.filter((w) => w !== waiter);
+        reject(new Error("Request cancelled"));
+        this.pump();
+      };
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Align the buckets with the provider's rate-limit headers.
+   * Handles OpenAI-style x-ratelimit-* and Anthropic's anthropic-ratelimit-*.
+   */
+  updateFromHeaders(headers: Headers): void {
+    const read = (kind: "requests" | "tokens", field: string) =>
+      headers.get(`x-ratelimit-${field}-${kind}`) ??
+      headers.get(`anthropic-ratelimit-${kind}-${field}`);
+
+    const limitRequests = parseInt(read("requests", "limit") || "");
+    if (limitRequests > 0) this.headerRPM = limitRequests;
+    const limitTokens = parseInt(read("tokens", "limit") || "");
+    if (limitTokens > 0) this.headerTPM = limitTokens;
+
+    this.refill();
+    for (const kind of ["requests", "tokens"] as const) {
+      const remaining = parseInt(read(kind, "remaining") || "");
+      if (isNaN(remaining)) continue;
+
+      if (kind === "requests" && this.requestBucket !== null) {
+        this.requestBucket = Math.min(this.requestBucket, remaining);
+      }
+      if (kind === "tokens" && this.tokenBucket !== null) {
+        this.tokenBucket = Math.min(this.tokenBucket, remaining);
+      }
+      // Out of quota: hold everything until the window resets
+      if (remaining <= 0) {
+        const reset = parseReset(read(kind, "reset"));
+        if (reset !== null) this.blockUntil(Date.now() + reset);
+      }
+    }
+    this.pump();
+  }
+
+  /**
+   * Record a 429: hold every request for `waitMs` and lower the rate.
+   */
+  throttled(waitMs: number): void {
+    this.rateFactor = Math.max(MIN_RATE_FACTOR, this.rateFactor / 2);
+    this.blockUntil(Date.now() + waitMs);
+    Zotero.debug(
+      `[AI Tagger] Rate limited: pausing all requests for ${waitMs}ms, rate now ${Math.round(this.rateFactor * 100)}%`,
+    );
+  }
+
+  /**
+   * Record a successful request, slowly restoring the rate after a 429.
+   */
+  succeeded(): void {
+    if (this.rateFactor < 1) {
+      this.rateFactor = Math.min(1, this.rateFactor + RATE_RECOVERY_STEP);
+    }
+  }
+
+  private blockUntil(time: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, time);
+    this.pump();
+  }
+}
+
+/** The one scheduler shared by every batch, auto-tag and single-item request. */
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,136 @@
+import { readJSON, removeFile, writeJSON } from "./storage";
+import type { TagSuggestion } from "./tag-engine";
+
+const CACHE_FILE = "response-cache.json";
+
+/** Oldest entries are evicted beyond this count. */
+const MAX_ENTRIES = 10000;
+
+/** Writes are coalesced so a batch run doesn't rewrite the file per item. */
+const SAVE_DELAY = 2000;
+
+export interface CachedResponse {
+  tags: TagSuggestion[];
+  reasoning: string;
+  model: string;
+  createdAt: string;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+let entries: Map<string, CachedResponse> | null = null;
+let loading: Promise<Map<string, CachedResponse>> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let hits = 0;
+let misses = 0;
+
+/**
+ * Load the cache file into memory once per session.
+ */
+function load(): Promise<Map<string, CachedResponse>> {
+  if (entries) return Promise.resolve(entries);
+  if (!loading) {
+    loading = readJSON<Record<string, CachedResponse>>(CACHE_FILE, {}).then(
+      (data) => {
+        entries = new Map(Object.entries(data));
+        loading = null;
+        return entries;
+      },
+    );
+  }
+  return loading;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    if (!entries) return;
+    writeJSON(CACHE_FILE, Object.fromEntries(entries)).catch((e) =>
+      Zotero.debug(`[AI Tagger] Failed to save response cache: ${e}`),
+    );
+  }, SAVE_DELAY);
+}
+
+/**
+ * Write any pending changes to disk immediately.
+ */
+export async function flushCache(): Promise<void> {
+  if (!saveTimer) return;
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  if (entries) await writeJSON(CACHE_FILE, Object.fromEntries(entries));
+}
+
+/**
+ * Hash everything that determines a response into a cache key.
+ */
+export function buildCacheKey(parts: Record<string, unknown>): string {
+  return Zotero.Utilities.Internal.md5(JSON.stringify(parts));
+}
+
+/**
+ * Look up a cached response.
+ */
+export async function getCachedResponse(
+  key: string,
+): Promise<CachedResponse | null> {
+  const cache = await load();
+  const entry = cache.get(key);
+  if (entry) {
+    hits++;
+    return entry;
+  }
+  misses++;
+  return null;
+}
+
+/**
+ * Check whether a response is cached, without counting a hit or miss.
+ */
+export async function hasCachedResponse(key: string): Promise<boolean> {
+  return (await load()).has(key);
+}
+
+/**
+ * Store a response in the cache.
+ */
+export async function setCachedResponse(
+  key: string,
+  response: CachedResponse,
+): Promise<void> {
+  const cache = await load();
+  // Re-insert so Map order stays oldest-first for eviction
+  cache.delete(key);
+  cache.set(key, response);
+  while (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  scheduleSave();
+}
+
+/**
+ * Get entry count and this session's hit/miss counts.
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const cache = await load();
+  return { entries: cache.size, hits, misses };
+}
+
+/**
+ * Delete all cached responses.
+ */
+export async function clearCache(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  entries = new Map();
+  hits = 0;
+  misses = 0;
+  await removeFile(CACHE_FILE);
+}
@@ -0,0 +1,293 @@
+import {
+  chatCompletion,
+  type ChatCompletionOptions,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ResponseFormat,
+} from "./ai-service";
+import { addUsage, getUsage, type TokenUsage } from "./cost-estimator";
+
+/** Max validation errors quoted back to the model in a repair request. */
+const MAX_REPORTED_ERRORS = 5;
+
+/** Requests still allowed for an item. Each request, repairs included, uses one. */
+export interface RequestBudget {
+  remaining: number;
+}
+
+/** Thrown when a model's answer isn't valid JSON for the requested schema. */
+export class ResponseParseError extends Error {
+  constructor(
+    message: string,
+    /** The raw answer, for the repair request */
+    readonly content: string,
+    /** True if the answer was cut off by max_tokens */
+    readonly truncated: boolean,
+  ) {
+    super(message);
+    this.name = "ResponseParseError";
+  }
+}
+
+/**
+ * Thrown when a structured request fails after at least one answer came
+ * back, with the usage of the requests that were sent.
+ */
+export class StructuredResponseError extends Error {
+  constructor(
+    message: string,
+    /** Tokens used by the requests, which are billed even though they failed */
+    readonly usage: TokenUsage,
+  ) {
+    super(message);
+    this.name = "StructuredResponseError";
+  }
+}
+
+/**
+ * Get the usage a failed request still cost, if any is known.
+ */
+export function getErrorUsage(error: unknown): TokenUsage | undefined {
+  return error instanceof StructuredResponseError ? error.usage : undefined;
+}
+
+/**
+ * Remove a surrounding ```json … ``` fence, if any.
+ */
+export function stripCodeFences(text: string): string {
+  const match = text.match(/```[\w-]*\s*\n?([\s\S]*?)(?:```|$)/);
+  return match ? match[1].trim() : text.trim();
+}
+
+/**
+ * Find the first balanced JSON object in text that may have prose around
+ * it. Returns null if there is no complete object.
+ */
+export function extractJSONObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) return text.substring(start, i + 1);
+    }
+  }
+  return null;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Check a value against the subset of JSON Schema used for structured
+ * output: type, properties, required, additionalProperties, items and enum.
+ * Enum values match case-insensitively, since validateTags fixes the case.
+ * Returns a list of errors, empty if valid.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path = "$",
+): string[] {
+  const errors: string[] = [];
+  const type = schema.type as string | undefined;
+  const actual = typeOf(value);
+
+  if (type) {
+    const matches =
+      type === actual ||
+      (type === "integer" && Number.isInteger(value)) ||
+      (type === "number" && actual === "number" && !isNaN(value as number));
+    if (!matches) return [`${path} should be ${type}, got ${actual}`];
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const allowed = (schema.enum as unknown[]).map((v) =>
+      String(v).toLowerCase(),
+    );
+    if (!allowed.includes(String(value).toLowerCase())) {
+      errors.push(`${path} "${value}" is not one of the allowed values`);
+    }
+  }
+
+  if (actual === "object" && schema.properties) {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties as Record<
+      string,
+      Record<string, unknown>
+    >;
+    for (const key of (schema.required as string[]) || []) {
+      if (!(key in obj)) errors.push(`${path} is missing "${key}"`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (properties[key]) {
+        errors.push(
+          ...validateSchema(child, properties[key], `${path}.${key}`),
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path} has unexpected property "${key}"`);
+      }
+    }
+  }
+
+  if (actual === "array" && schema.items) {
+    (value as unknown[]).forEach((child, i) =>
+      errors.push(
+        ...validateSchema(
+          child,
+          schema.items as Record<string, unknown>,
+          `${path}[${i}]`,
+        ),
+      ),
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a model's answer as JSON and validate it against the response
+ * format's schema. Tolerates code fences and prose around the object.
+ * Throws a ResponseParseError describing what is wrong.
+ */
+export function parseStructuredResponse<T>(
+  response: ChatCompletionResponse,
+  format: ResponseFormat,
+): T {
+  const choice = response.choices[0];
+  const content = choice?.message.content || "";
+  const truncated = choice?.finish_reason === "length";
+
+  if (!content.trim()) {
+    throw new ResponseParseError("The response was empty", content, truncated);
+  }
+
+  const json = extractJSONObject(stripCodeFences(content));
+  if (!json) {
+    throw new ResponseParseError(
+      truncated
+        ? "The response was cut off before the JSON object was complete"
+        : "The response did not contain a JSON object",
+      content,
+      truncated,
+    );
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    throw new ResponseParseError(
+      `The response was not valid JSON: ${(e as Error).message}`,
+      content,
+      truncated,
+    );
+  }
+
+  const errors = validateSchema(value, format.json_schema.schema);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).join("; ");
+    const more =
+      errors.length > MAX_REPORTED_ERRORS
+        ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)`
+        : "";
+    throw new ResponseParseError(
+      `The response did not match the schema: ${shown}${more}`,
+      content,
+      truncated,
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Send a request and parse its structured answer. If the answer can't be
+ * parsed, send it back once with the error so the model can correct it;
+ * a cut-off answer is retried with twice the token limit. With a
+ * `budget`, both requests are taken from it, and the answer isn't
+ * repaired once the budget is used up. Once an answer came back, failures
+ * throw a StructuredResponseError with the usage so far.
+ */
+export async function completeStructured<T>(
+  request: ChatCompletionRequest & { response_format: ResponseFormat },
+  options?: Pick<ChatCompletionOptions, "signal" | "connection"> & {
+    budget?: RequestBudget;
+  },
+): Promise<{ parsed: T; usage: TokenUsage }> {
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  const budget = options?.budget;
+
+  if (budget) budget.remaining--;
+  const first = await chatCompletion(request, options);
+  addUsage(usage, getUsage(request.messages, first));
+  try {
+    return {
+      parsed: parseStructuredResponse<T>(first, request.response_format),
+      usage,
+    };
+  } catch (e) {
+    if (!(e instanceof ResponseParseError)) throw e;
+    if (budget && budget.remaining <= 0) {
+      throw new StructuredResponseError(
+        `Could not read the AI's answer: ${e.message}`,
+        usage,
+      );
+    }
+    Zotero.debug(`[AI Tagger] ${e.message}; asking the model to repair it`);
+
+    const repair: ChatCompletionRequest & { response_format: ResponseFormat } =
+      {
+        ...request,
+        messages: [
+          ...request.messages,
+          // Providers reject empty turns, e.g. after a refusal or a tool call
+          // without text; then just ask again
+          ...(e.content.trim()
+            ? [{ role: "assistant" as const, content: e.content }]
+            : []),
+          {
+            role: "user",
+            content: `${e.message}. ${e.truncated ? "Answer more briefly so the JSON fits. " : ""}Reply with only the corrected JSON object, no other text.`,
+          },
+        ],
+        max_tokens:
+          e.truncated && request.max_tokens
+            ? request.max_tokens * 2
+            : request.max_tokens,
+      };
+    if (budget) budget.remaining--;
+    let second: ChatCompletionResponse;
+    try {
+      second = await chatCompletion(repair, options);
+    } catch (repairError) {
+      throw new StructuredResponseError((repairError as Error).message, usage);
+    }
+    addUsage(usage, getUsage(repair.messages, second));
+    try {
+      return {
+        parsed: parseStructuredResponse<T>(second, request.response_format),
+        usage,
+      };
+    } catch (retryError) {
+      if (!(retryError instanceof ResponseParseError)) throw retryError;
+      throw new StructuredResponseError(
+        `Could not read the AI's answer: ${retryError.message}`,
+        usage,
+      );
+    }
+  }
+}
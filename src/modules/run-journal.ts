@@ -0,0 +1,214 @@
+import { getPref } from "./preferences";
+import { unmarkRun } from "./processed-items";
+import { removeProvenance } from "./provenance";
+import { readJSON, writeJSON } from "./storage";
+
+const JOURNAL_FILE = "runs.json";
+
+/** Oldest runs are dropped from the journal beyond this count. */
+const MAX_RUNS = 50;
+
+export interface RunItemEntry {
+  itemID: number;
+  /** Tags this run added (tags already on the item are not recorded) */
+  tags: string[];
+  /** Zotero tag type the tags were added with (0 manual, 1 automatic) */
+  type?: number;
+  /** Marker tag this run added alongside the tags, if any */
+  marker?: string;
+  /** Model that suggested the tags, if not the run's (e.g. by a collection's profile) */
+  model?: string;
+  /** The item's dateModified once the run saved it, to tell later edits */
+  modifiedAt?: string;
+}
+
+export interface TaggingRun {
+  runID: string;
+  timestamp: string;
+  /** Model of the first item the run tagged */
+  model: string;
+  promptHash: string;
+  items: RunItemEntry[];
+  undone?: boolean;
+}
+
+export interface UndoResult {
+  items: number;
+  tags: number;
+}
+
+// Serialize journal writes so concurrent batch items don't clobber each other
+let writeQueue: Promise<void> = Promise.resolve();
+
+function withJournal(
+  fn: (runs: TaggingRun[]) => TaggingRun[] | void,
+): Promise<void> {
+  writeQueue = writeQueue
+    .then(async () => {
+      const runs = await readJSON<TaggingRun[]>(JOURNAL_FILE, []);
+      const updated = fn(runs) || runs;
+      await writeJSON(JOURNAL_FILE, updated.slice(-MAX_RUNS));
+    })
+    .catch((e) => Zotero.debug(`[AI Tagger] Journal write failed: ${e}`));
+  return writeQueue;
+}
+
+/**
+ * Hash the settings that shape the prompt, so runs can be told apart later.
+ */
+function hashPromptSettings(): string {
+  return Zotero.Utilities.Internal.md5(
+    JSON.stringify([
+      getPref("systemPrompt"),
+      getPref("promptTemplates"),
+      getPref("tagSource"),
+      getPref("maxTags"),
+      getPref("fewShotExamples"),
+    ]),
+  );
+}
+
+/**
+ * Start a new tagging run. Nothing is written until the run applies a tag,
+ * which also sets its model.
+ */
+export function createRun(): TaggingRun {
+  return {
+    runID: `${Date.now().toString(36)}-${Zotero.Utilities.randomString(6)}`,
+    timestamp: new Date().toISOString(),
+    model: "",
+    promptHash: hashPromptSettings(),
+    items: [],
+  };
+}
+
+/**
+ * Reopen a run to record more items, e.g. when a batch job is resumed.
+ * Runs that never applied a tag were not written, so they start afresh.
+ */
+export async function reopenRun(runID: string): Promise<TaggingRun> {
+  const runs = await listRuns();
+  return runs.find((r) => r.runID === runID) || { ...createRun(), runID };
+}
+
+/**
+ * Record what a run added to an item and persist the journal. The entry's
+ * model is kept only if it differs from the run's.
+ */
+export async function recordRunItem(
+  run: TaggingRun,
+  entry: RunItemEntry & { model: string },
+): Promise<void> {
+  if (entry.tags.length === 0) return;
+  if (run.items.length === 0) run.model = entry.model;
+  const { model, ...rest } = entry;
+  run.items.push({
+    ...rest,
+    tags: [...entry.tags],
+    ...(model !== run.model ? { model } : {}),
+  });
+
+  await withJournal((runs) => {
+    const index = runs.findIndex((r) => r.runID === run.runID);
+    if (index >= 0) {
+      runs[index] = run;
+    } else {
+      runs.push(run);
+    }
+  });
+}
+
+/**
+ * List journaled runs, newest first.
+ */
+export async function listRuns(): Promise<TaggingRun[]> {
+  await writeQueue;
+  const runs = await readJSON<TaggingRun[]>(JOURNAL_FILE, []);
+  return runs.reverse();
+}
+
+/**
+ * Get the most recent run that has not been undone.
+ */
+export async function getLastRun(): Promise<TaggingRun | null> {
+  const runs = await listRuns();
+  return runs.find((r) => !r.undone) || null;
+}
+
+/**
+ * Check whether an item was changed since a run, or a later run, saved it.
+ * Entries from before modification times were recorded count as unchanged.
+ */
+function editedSince(
+  item: Zotero.Item,
+  entry: RunItemEntry,
+  others: RunItemEntry[],
+): boolean {
+  if (!entry.modifiedAt) return false;
+  return ![entry, ...others].some((e) => e.modifiedAt === item.dateModified);
+}
+
+/**
+ * Remove the tags a run added, along with its provenance lines. Tags that
+ * were on the items before the run are left alone, as are tags re-added
+ * since by hand (with another tag type) or by a later run. The marker tag
+ * stays while another run's tags remain on the item, and the marker and
+ * provenance stay on items edited since the run.
+ */
+export async function undoRun(runID: string): Promise<UndoResult> {
+  const runs = await listRuns();
+  const run = runs.find((r) => r.runID === runID);
+  if (!run) throw new Error(`Run ${runID} not found`);
+  if (run.undone) throw new Error(`Run ${runID} was already undone`);
+
+  const result: UndoResult = { items: 0, tags: 0 };
+
+  for (const entry of run.items) {
+    const item = Zotero.Items.get(entry.itemID) as Zotero.Item;
+    if (!item || item.deleted) continue;
+
+    // This item's entries in other runs that are still in effect
+    const others = runs
+      .filter((r) => r.runID !== runID && !r.undone)
+      .flatMap((r) => r.items.filter((e) => e.itemID === entry.itemID));
+    const edited = editedSince(item, entry, others);
+
+    const types = new Map(
+      item
+        .getTags()
+        .map((t: { tag: string; type?: number }) => [t.tag, t.type || 0]),
+    );
+    let removed = 0;
+    for (const tag of entry.tags) {
+      // Added again by a later run, or by hand with another tag type
+      if (others.some((e) => e.tags.includes(tag))) continue;
+      if (entry.type !== undefined && types.get(tag) !== entry.type) continue;
+      if (item.removeTag(tag)) removed++;
+    }
+    const markerRemoved =
+      !!entry.marker &&
+      !edited &&
+      others.length === 0 &&
+      item.removeTag(entry.marker);
+    const extraChanged = !edited && (await removeProvenance(item, runID));
+
+    if (removed > 0 || markerRemoved || extraChanged) {
+      await item.saveTx();
+    }
+    if (removed > 0) {
+      result.items++;
+      result.tags += removed;
+    }
+  }
+
+  await withJournal((all) => {
+    const stored = all.find((r) => r.runID === runID);
+    if (stored) stored.undone = true;
+  });
+  await unmarkRun(runID);
+
+  Zotero.debug(
+    `[AI Tagger] Undid run ${runID}: removed ${result.tags} tag(s) from ${result.items} item(s)`,
+  );
+  return result;
+}
@@ -0,0 +1,187 @@
+/**
+ * Offline tagger that learns from the library: predicts an item's tags from
+ * the curated tags of the most similar tagged items (k-nearest neighbours
+ * over TF-IDF vectors of the metadata and Zotero's cached full text).
+ * Needs no network, so it can stand in for the AI or shortlist candidate
+ * tags before the AI request.
+ */
+
+import { getItemMetadata } from "./item-metadata";
+import {
+  countTerms,
+  findSimilar,
+  getCuratedTags,
+  getLibraryIndex,
+  vectorize,
+  type TermCounts,
+} from "./library-index";
+import { getPref } from "./preferences";
+import type { TagAnswer, TagSuggestion } from "./tag-engine";
+
+/** Shown as the model in runs and provenance when the AI isn't used. */
+export const STATISTICAL_MODEL = "statistical";
+
+/** Neighbours that vote on an item's tags. */
+const NEIGHBOURS = 10;
+
+/** Neighbours consulted when shortlisting candidate tags, for recall. */
+const SHORTLIST_NEIGHBOURS = 50;
+
+/** Characters of full text used per item. */
+const FULLTEXT_LENGTH = 20000;
+
+/** Field weights: a title word counts more than a full-text word. */
+const FIELD_WEIGHTS: Record<string, number> = {
+  title: 3,
+  abstractNote: 2,
+  publicationTitle: 1,
+  creators: 1,
+};
+
+/** Name of the library index over metadata and full text. */
+const INDEX_NAME = "statistical";
+
+/** When the statistical tagger is used, from the "statisticalTagging" preference. */
+export type StatisticalMode = "off" | "fallback" | "only";
+
+export function getStatisticalMode(): StatisticalMode {
+  const value = getPref("statisticalTagging") as string;
+  return value === "fallback" || value === "only" ? value : "off";
+}
+
+/**
+ * Count weighted tokens in an item's metadata and full text.
+ */
+function countItemTerms(
+  metadata: Record<string, string>,
+  fullText: string,
+): TermCounts {
+  return countTerms([
+    ...Object.entries(FIELD_WEIGHTS).map(
+      ([field, weight]) => [metadata[field] || "", weight] as [string, number],
+    ),
+    [fullText.substring(0, FULLTEXT_LENGTH), 1],
+  ]);
+}
+
+/**
+ * Read the text Zotero already extracted from an item's attachments for
+ * its full-text index. Attachments that were never indexed are skipped,
+ * so nothing is extracted here.
+ */
+async function readCachedFullText(item: Zotero.Item): Promise<string> {
+  for (const attachmentID of item.getAttachments()) {
+    const attachment = Zotero.Items.get(attachmentID) as Zotero.Item;
+    if (!attachment || !Zotero.Fulltext.canIndex(attachment)) continue;
+    try {
+      const path = Zotero.Fulltext.getItemCacheFile(attachment).path;
+      const text = (await Zotero.File.getContentsAsync(
+        path,
+        "utf-8",
+        FULLTEXT_LENGTH,
+      )) as string;
+      if (text) return text;
+    } catch {
+      // Not indexed yet
+    }
+  }
+  return "";
+}
+
+/** A tag's votes from an item's neighbours. */
+interface TagVote {
+  /** Summed similarity of the neighbours with the tag, as a share of all neighbours' (0–1) */
+  share: number;
+  /** Neighbours with the tag */
+  count: number;
+}
+
+/**
+ * Weigh the tags of the items most similar to an item, each neighbour
+ * voting with its similarity. Only tags in `vocabulary` count.
+ */
+async function voteTags(
+  item: Zotero.Item,
+  fullText: string,
+  vocabulary: string[],
+  neighbours: number,
+): Promise<{ votes: Map<string, TagVote>; neighbours: number }> {
+  const index = await getLibraryIndex(item.libraryID, INDEX_NAME, async (i) =>
+    countItemTerms(getItemMetadata(i), await readCachedFullText(i)),
+  );
+  const similar = findSimilar(
+    index,
+    vectorize(countItemTerms(getItemMetadata(item), fullText), index.idf),
+    item.id,
+  ).slice(0, neighbours);
+
+  const allowed = new Set(vocabulary);
+  const votes = new Map<string, TagVote>();
+  let total = 0;
+  for (const { itemID, score } of similar) {
+    const neighbour = Zotero.Items.get(itemID) as Zotero.Item | false;
+    if (!neighbour || neighbour.deleted) continue;
+    total += score;
+    for (const tag of getCuratedTags(neighbour)) {
+      if (!allowed.has(tag)) continue;
+      const vote = votes.get(tag) || { share: 0, count: 0 };
+      votes.set(tag, { share: vote.share + score, count: vote.count + 1 });
+    }
+  }
+  for (const vote of votes.values()) vote.share /= total;
+  return { votes, neighbours: similar.length };
+}
+
+/**
+ * Score vocabulary tags for an item, for shortlisting candidates.
+ * Tags no similar item has are left out.
+ */
+export async function scoreTagsStatistically(
+  item: Zotero.Item,
+  fullText: string,
+  vocabulary: string[],
+): Promise<Map<string, number>> {
+  const { votes } = await voteTags(
+    item,
+    fullText,
+    vocabulary,
+    SHORTLIST_NEIGHBOURS,
+  );
+  return new Map([...votes].map(([tag, vote]) => [tag, vote.share]));
+}
+
+/**
+ * Predict up to `maxTags` tags for an item from its most similar tagged
+ * items, as an answer in the same form as the AI's. The confidence of a
+ * tag is its share of the neighbours' votes, weighted by similarity.
+ */
+export async function predictTags(
+  item: Zotero.Item,
+  fullText: string,
+  vocabulary: string[],
+  maxTags: number,
+): Promise<TagAnswer> {
+  const { votes, neighbours } = await voteTags(
+    item,
+    fullText,
+    vocabulary,
+    NEIGHBOURS,
+  );
+  const tags: TagSuggestion[] = [...votes]
+    .sort((a, b) => b[1].share - a[1].share)
+    .slice(0, maxTags)
+    .map(([name, vote]) => ({
+      name,
+      confidence: vote.share,
+      justification: `Used on ${vote.count} of the ${neighbours} most similar tagged items`,
+    }));
+
+  return {
+    tags,
+    reasoning:
+      neighbours > 0
+        ? `Predicted offline from the ${neighbours} most similar tagged items in the library.`
+        : "No similar tagged items found in the library.",
+    usage: { promptTokens: 0, completionTokens: 0 },
+  };
+}
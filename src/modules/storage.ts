@@ -0,0 +1,48 @@
+/**
+ * Persistent JSON storage in the Zotero data directory (<dataDir>/ai-tagger/).
+ */
+
+const STORAGE_DIR_NAME = "ai-tagger";
+
+/**
+ * Get the plugin's storage directory, creating it if necessary.
+ */
+export async function getStorageDir(): Promise<string> {
+  const dir = PathUtils.join(Zotero.DataDirectory.dir, STORAGE_DIR_NAME);
+  await IOUtils.makeDirectory(dir, { ignoreExisting: true });
+  return dir;
+}
+
+/**
+ * Read a JSON file from the storage directory.
+ * Returns the fallback value if the file is missing or unreadable.
+ */
+export async function readJSON<T>(fileName: string, fallback: T): Promise<T> {
+  const path = PathUtils.join(await getStorageDir(), fileName);
+  try {
+    if (!(await IOUtils.exists(path))) return fallback;
+    return (await IOUtils.readJSON(path)) as T;
+  } catch (e) {
+    Zotero.debug(`[AI Tagger] Failed to read ${fileName}: ${e}`);
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file to the storage directory atomically.
+ */
+export async function writeJSON(
+  fileName: string,
+  data: unknown,
+): Promise<void> {
+  const path = PathUtils.join(await getStorageDir(), fileName);
+  await IOUtils.writeJSON(path, data, { tmpPath: path + ".tmp" });
+}
+
+/**
+ * Delete a file from the storage directory if it exists.
+ */
+export async function removeFile(fileName: string): Promise<void> {
+  const path = PathUtils.join(await getStorageDir(), fileName);
+  await IOUtils.remove(path, { ignoreAbsent: true });
+}
@@ -0,0 +1,343 @@
+/**
+ * Dry-run suggestion reports: export suggestions for review as CSV or JSON,
+ * then re-import an edited report to apply it.
+ */
+
+import { markProcessed } from "./processed-items";
+import { createRun } from "./run-journal";
+import { applyTags, type TagResult } from "./tag-engine";
+
+const REPORT_VERSION = 1;
+
+/** Tags are joined with this in the CSV "suggested_tags" column. */
+const CSV_TAG_SEPARATOR = "; ";
+
+const CSV_COLUMNS = [
+  "library_id",
+  "item_key",
+  "title",
+  "suggested_tags",
+  "reasoning",
+  "model",
+  "error",
+] as const;
+
+export interface ReportEntry {
+  libraryID: number;
+  itemKey: string;
+  title: string;
+  suggestedTags: string[];
+  reasoning: string;
+  /** Model that suggested the tags */
+  model: string;
+  error: string;
+}
+
+export interface SuggestionReport {
+  version: number;
+  createdAt: string;
+  /** Models that suggested the tags, comma-separated */
+  model: string;
+  entries: ReportEntry[];
+}
+
+export interface ApplyReportResult {
+  /** Items that received at least one tag */
+  items: number;
+  /** Tags added */
+  tags: number;
+  /** Entries whose item no longer exists */
+  missing: number;
+}
+
+export type ReportFormat = "csv" | "json";
+
+/**
+ * Build a report from batch results.
+ */
+export function buildReport(results: TagResult[]): SuggestionReport {
+  const entries: ReportEntry[] = [];
+  for (const result of results) {
+    const item = Zotero.Items.get(result.itemID) as Zotero.Item;
+    if (!item) continue;
+    entries.push({
+      libraryID: item.libraryID,
+      itemKey: item.key,
+      title: result.title,
+      suggestedTags: result.suggestedTags,
+      reasoning: result.reasoning,
+      model: result.model || "",
+      error: result.error || "",
+    });
+  }
+  const models = new Set(entries.map((e) => e.model).filter((m) => m));
+  return {
+    version: REPORT_VERSION,
+    createdAt: new Date().toISOString(),
+    model: [...models].join(", "),
+    entries,
+  };
+}
+
+/**
+ * Quote a CSV field if needed (RFC 4180).
+ */
+export function escapeCSV(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function splitTags(value: string): string[] {
+  return value
+    .split(/[;\n]/)
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+}
+
+/**
+ * Serialize a report as CSV, one row per item.
+ */
+export function reportToCSV(report: SuggestionReport): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  for (const e of report.entries) {
+    rows.push(
+      [
+        String(e.libraryID),
+        e.itemKey,
+        e.title,
+        e.suggestedTags.join(CSV_TAG_SEPARATOR),
+        e.reasoning,
+        e.model,
+        e.error,
+      ]
+        .map(escapeCSV)
+        .join(","),
+    );
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180 quoting).
+ */
+function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Spreadsheet apps often add a byte-order mark
+  if (text.charCodeAt(0) === 0xfeff) text = text.substring(1);
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim().length > 0));
+}
+
+/**
+ * Parse a CSV report. Columns are matched by header name, so they may be
+ * reordered or extra columns added while editing.
+ */
+export function reportFromCSV(text: string): SuggestionReport {
+  const [header, ...rows] = parseCSVRows(text);
+  if (!header) throw new Error("The report is empty");
+
+  const index = new Map(
+    header.map((name, i) => [name.trim().toLowerCase(), i]),
+  );
+  if (!index.has("item_key") || !index.has("suggested_tags")) {
+    throw new Error('The report needs "item_key" and "suggested_tags" columns');
+  }
+  const get = (row: string[], column: string) =>
+    index.has(column) ? (row[index.get(column)!] || "").trim() : "";
+
+  return {
+    version: REPORT_VERSION,
+    createdAt: "",
+    model: "",
+    entries: rows.map((row) => ({
+      libraryID:
+        parseInt(get(row, "library_id")) || Zotero.Libraries.userLibraryID,
+      itemKey: get(row, "item_key"),
+      title: get(row, "title"),
+      suggestedTags: splitTags(get(row, "suggested_tags")),
+      reasoning: get(row, "reasoning"),
+      model: get(row, "model"),
+      error: get(row, "error"),
+    })),
+  };
+}
+
+/**
+ * Parse a JSON report.
+ */
+export function reportFromJSON(text: string): SuggestionReport {
+  const data = JSON.parse(text) as Partial<SuggestionReport>;
+  if (!Array.isArray(data.entries)) {
+    throw new Error('The report needs an "entries" array');
+  }
+  return {
+    version: data.version || REPORT_VERSION,
+    createdAt: data.createdAt || "",
+    model: data.model || "",
+    entries: data.entries.map((e) => ({
+      libraryID: e.libraryID || Zotero.Libraries.userLibraryID,
+      itemKey: String(e.itemKey || ""),
+      title: e.title || "",
+      suggestedTags: (e.suggestedTags || [])
+        .map((t) => String(t).trim())
+        .filter((t) => t.length > 0),
+      reasoning: e.reasoning || "",
+      model: e.model || "",
+      error: e.error || "",
+    })),
+  };
+}
+
+function formatFromPath(path: string): ReportFormat {
+  return path.toLowerCase().endsWith(".json") ? "json" : "csv";
+}
+
+/**
+ * Show a file picker and resolve to the chosen path, or null if cancelled.
+ */
+export function pickFile(
+  win: Window,
+  title: string,
+  mode: "open" | "save",
+  defaultName?: string,
+): Promise<string | null> {
+  const fp = Components.classes["@mozilla.org/filepicker;1"].createInstance(
+    Components.interfaces.nsIFilePicker,
+  );
+  fp.init(
+    win.browsingContext,
+    title,
+    mode === "save" ? fp.modeSave : fp.modeOpen,
+  );
+  fp.appendFilter("CSV", "*.csv");
+  fp.appendFilter("JSON", "*.json");
+  if (defaultName) fp.defaultString = defaultName;
+
+  return new Promise((resolve) => {
+    fp.open((result: number) => {
+      if (result === fp.returnOK || result === fp.returnReplace) {
+        let path = fp.file.path;
+        // Add the extension of the chosen filter if the user left it off
+        if (mode === "save" && !/\.(csv|json)$/i.test(path)) {
+          path += fp.filterIndex === 1 ? ".json" : ".csv";
+        }
+        resolve(path);
+      } else {
+        resolve(null);
+      }
+    });
+  });
+}
+
+/**
+ * Ask for a file name and save a report as CSV or JSON, by extension.
+ * Returns the saved path, or null if cancelled.
+ */
+export async function exportReport(
+  win: Window,
+  report: SuggestionReport,
+): Promise<string | null> {
+  const date = new Date().toISOString().substring(0, 10);
+  const path = await pickFile(
+    win,
+    "Save AI Tagger Report",
+    "save",
+    `ai-tagger-report-${date}.csv`,
+  );
+  if (!path) return null;
+
+  const text =
+    formatFromPath(path) === "json"
+      ? JSON.stringify(report, null, 2)
+      : reportToCSV(report);
+  await IOUtils.writeUTF8(path, text);
+  Zotero.debug(
+    `[AI Tagger] Saved report with ${report.entries.length} entries to ${path}`,
+  );
+  return path;
+}
+
+/**
+ * Ask for a report file and parse it. Returns null if cancelled.
+ */
+export async function importReport(
+  win: Window,
+): Promise<SuggestionReport | null> {
+  const path = await pickFile(win, "Open AI Tagger Report", "open");
+  if (!path) return null;
+
+  const text = await IOUtils.readUTF8(path);
+  return formatFromPath(path) === "json"
+    ? reportFromJSON(text)
+    : reportFromCSV(text);
+}
+
+/**
+ * Apply the (possibly edited) suggestions in a report as one journaled run,
+ * so it can be undone like any other run.
+ */
+export async function applyReport(
+  report: SuggestionReport,
+): Promise<ApplyReportResult> {
+  const run = createRun();
+  const result: ApplyReportResult = { items: 0, tags: 0, missing: 0 };
+
+  for (const entry of report.entries) {
+    if (!entry.itemKey || entry.suggestedTags.length === 0) continue;
+
+    const item = (await Zotero.Items.getByLibraryAndKeyAsync(
+      entry.libraryID,
+      entry.itemKey,
+    )) as Zotero.Item | false;
+    if (!item || item.deleted) {
+      Zotero.debug(`[AI Tagger] Report item not found: ${entry.itemKey}`);
+      result.missing++;
+      continue;
+    }
+
+    // The "model" column may have been dropped while editing
+    const model = entry.model || report.model;
+    const added = await applyTags(item.id, entry.suggestedTags, model, run);
+    await markProcessed(item, run, model);
+    if (added.length > 0) {
+      result.items++;
+      result.tags += added.length;
+    }
+  }
+  return result;
+}
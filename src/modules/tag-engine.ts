@@ -1,16 +1,151 @@
-import { chatCompletionWithFallback, type ResponseFormat } from "./ai-service";
-import { extractFullText } from "./text-extractor";
+import {
+  getConnection,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ChatMessage,
+  type Connection,
+  type ResponseFormat,
+} from "./ai-service";
+import { extractFullText, truncateText } from "./text-extractor";
+import {
+  chunkText,
+  estimateChunkTopicsUsage,
+  extractChunkTopics,
+  selectChunks,
+} from "./long-document";
+import {
+  addUsage,
+  computeCost,
+  ESTIMATED_COMPLETION_TOKENS,
+  estimateMessagesTokens,
+  estimateTokens,
+  getUsage,
+  type TokenUsage,
+} from "./cost-estimator";
+import { getFewShotExamples } from "./few-shot";
+import { getItemMetadata } from "./item-metadata";
 import { getPref } from "./preferences";
+import {
+  filterVocabulary,
+  getItemProfile,
+  getProfileConnection,
+  getProfileSetting,
+  type ProfileSetting,
+  type ResolvedProfile,
+} from "./profiles";
+import {
+  BUILTIN_TEMPLATE,
+  getTemplate,
+  renderTemplate,
+  type PromptValues,
+} from "./prompt-templates";
+import {
+  completeStructured,
+  getErrorUsage,
+  parseStructuredResponse,
+  StructuredResponseError,
+} from "./response-parser";
+import {
+  addProvenanceNote,
+  addProvenanceToExtra,
+  formatProvenance,
+  getProvenanceTarget,
+} from "./provenance";
+import { recordRunItem, type TaggingRun } from "./run-journal";
+import {
+  getStatisticalMode,
+  predictTags,
+  STATISTICAL_MODEL,
+} from "./statistical-tagger";
+import { shortlistTags, validateTags } from "./tag-ranker";
+import {
+  buildCacheKey,
+  getCachedResponse,
+  hasCachedResponse,
+  setCachedResponse,
+} from "./response-cache";
+
+/** One suggested tag with the model's confidence and justification. */
+export interface TagSuggestion {
+  name: string;
+  /** 0–1 */
+  confidence: number;
+  justification: string;
+}
 
 export interface TagResult {
   itemID: number;
   title: string;
+  /** Names of the suggestions at or above the review threshold */
   suggestedTags: string[];
+  /** Details for each of `suggestedTags`, in the same order */
+  suggestions: TagSuggestion[];
   appliedTags: string[];
   reasoning: string;
+  /** True if the response came from the response cache */
+  cached?: boolean;
+  /** True if the tags were predicted by the statistical tagger */
+  offline?: boolean;
+  /** Tokens used by this item's API calls (zero when cached) */
+  usage?: TokenUsage;
+  /** Provider that answered */
+  provider?: string;
+  /** Model that suggested the tags (the statistical tagger's when offline) */
+  model?: string;
+  /** Model `usage` was billed by, if not `model` (an AI model that failed before the statistical fallback) */
+  usageModel?: string;
+  error?: string;
+}
+
+export interface ItemEstimate {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cached: boolean;
+  /** Provider and model of the item's profile, for pricing */
+  provider?: string;
+  model?: string;
+}
+
+/** The model's parsed answer for one item. */
+export interface TagAnswer {
+  tags: TagSuggestion[];
+  reasoning: string;
+  usage: TokenUsage;
+  /** Set instead of tags when no usable answer was obtained */
   error?: string;
 }
 
+export interface SuggestOptions {
+  /** Ignore the response cache and always call the API */
+  bypassCache?: boolean;
+  /** Aborts in-flight requests for this item */
+  signal?: AbortSignal;
+  /** Answer obtained elsewhere (e.g. an offline batch); no request is sent */
+  answer?: TagAnswer;
+  /**
+   * Treat the item as untagged: its tags are left out of the prompt and
+   * may be suggested again (see evaluation)
+   */
+  hideTags?: boolean;
+  /** Use this profile instead of the one for the item's collections */
+  profile?: ResolvedProfile;
+  /**
+   * Wait for attachments to appear if the item has none yet (default true).
+   * Auto-tag runs have already waited for them.
+   */
+  waitForAttachments?: boolean;
+}
+
+/** A ready-to-send tagging request for one item. */
+export interface PreparedRequest {
+  itemID: number;
+  request: ChatCompletionRequest & { response_format: ResponseFormat };
+}
+
+/** Bump when the response schema changes, so old cache entries miss. */
+const RESPONSE_SCHEMA_VERSION = 2;
+
 /**
  * Get all available library tags, filtering out excluded prefixes.
  */
@@ -42,32 +177,27 @@ async function getAvailableTags(libraryID: number): Promise<string[]> {
 }
 
 /**
- * Build the prompt for AI tag suggestion.
+ * Collect the placeholder values for an item's prompt template.
  */
-function buildPrompt(
+function buildPromptValues(
   metadata: Record<string, string>,
   fullText: string,
   availableTags: string[],
   tagSource: string,
   maxTags: number,
-): string {
-  let prompt = `Analyze this document and suggest relevant tags.\n\nDOCUMENT:\nTitle: ${metadata.title}\nAuthors: ${metadata.creators}\nType: ${metadata.itemType}\nPublication: ${metadata.publicationTitle}\nDate: ${metadata.date}\nAbstract: ${metadata.abstractNote}\nCurrent Tags: ${metadata.currentTags}\nDOI: ${metadata.doi}\nURL: ${metadata.url}\nExtra: ${metadata.extra}`;
-
-  if (fullText.length > 0) {
-    prompt += `\n\nFULL TEXT CONTENT:\n${fullText}`;
-  }
-
-  if (tagSource === "existing") {
-    prompt += `\n\nAVAILABLE TAGS TO CHOOSE FROM:\n${availableTags.join(", ")}`;
-    prompt += `\n\nPlease suggest up to ${maxTags} relevant tags from the available list that would categorize this document well. ${fullText.length > 0 ? "Use both the metadata and full text content to make accurate suggestions." : "Base suggestions on the available metadata."} Only suggest tags that exist in the available list above.`;
-  } else {
-    if (availableTags.length > 0) {
-      prompt += `\n\nEXISTING LIBRARY TAGS (for reference):\n${availableTags.join(", ")}`;
-    }
-    prompt += `\n\nPlease suggest up to ${maxTags} relevant tags that would categorize this document well. ${fullText.length > 0 ? "Use both the metadata and full text content to make accurate suggestions." : "Base suggestions on the available metadata."} You may suggest existing tags from the list above or create new descriptive tags.`;
-  }
-
-  return prompt;
+  examples: string,
+  fullTextHeading: string = "FULL TEXT CONTENT",
+): PromptValues {
+  return {
+    ...metadata,
+    abstract: metadata.abstractNote,
+    fulltext: fullText,
+    fulltextHeading: fullTextHeading,
+    examples,
+    vocabulary: availableTags.join(", "),
+    maxTags,
+    existingOnly: tagSource === "existing",
+  };
 }
 
 /**
@@ -93,7 +223,23 @@ function buildResponseFormat(
           tags: {
             type: "array",
             description: "List of suggested tags",
-            items: tagItemSchema,
+            items: {
+              type: "object",
+              properties: {
+                name: tagItemSchema,
+                confidence: {
+                  type: "number",
+                  description:
+                    "Confidence from 0 to 1 that the tag applies to the document",
+                },
+                justification: {
+                  type: "string",
+                  description: "One-sentence reason for this tag",
+                },
+              },
+              required: ["name", "confidence", "justification"],
+              additionalProperties: false,
+            },
           },
           reasoning: {
             type: "string",
@@ -108,178 +254,701 @@ function buildResponseFormat(
 }
 
 /**
- * Extract metadata from a Zotero item.
+ * Everything needed to build and send the tagging request for one item.
  */
-function getItemMetadata(item: Zotero.Item): Record<string, string> {
+interface TaggingContext {
+  targetItem: Zotero.Item;
+  metadata: Record<string, string>;
+  fullText: string;
+  availableTags: string[];
+  candidateTags: string[];
+  /** Similar tagged items, formatted for the prompt */
+  examples: string;
+  tagSource: string;
+  maxTags: number;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt: string;
+  promptTemplate: string;
+  maxFullTextLength: number;
+  longDocumentMode: boolean;
+  /** Provider and model, from the item's profile */
+  connection: Connection;
+  cacheKey: string;
+}
+
+/** The messages and schema sent for the final tag-selection request. */
+interface TaggingRequest {
+  messages: ChatMessage[];
+  responseFormat: ResponseFormat;
+}
+
+/**
+ * Build an error TagResult.
+ */
+function errorResult(itemID: number, title: string, error: string): TagResult {
   return {
-    title: item.getField("title") || "",
-    abstractNote: item.getField("abstractNote") || "",
-    creators: item
-      .getCreators()
-      .map((c: { firstName?: string; lastName?: string }) =>
-        `${c.firstName || ""} ${c.lastName || ""}`.trim(),
-      )
-      .join("; "),
-    itemType: item.itemType || "",
-    publicationTitle: item.getField("publicationTitle") || "",
-    date: item.getField("date") || "",
-    currentTags: item
-      .getTags()
-      .map((t: { tag: string }) => t.tag)
-      .join(", "),
-    doi: item.getField("DOI") || "",
-    url: item.getField("url") || "",
-    extra: item.getField("extra") || "",
+    itemID,
+    title,
+    suggestedTags: [],
+    suggestions: [],
+    appliedTags: [],
+    reasoning: "",
+    error,
   };
 }
 
 /**
- * Run AI tagging on a single Zotero item.
- * Returns the result without applying tags (caller decides based on confirmation mode).
+ * Resolve the target item, read preferences, extract text and shortlist
+ * candidate tags. Returns an error TagResult if the item can't be tagged.
  */
-export async function suggestTags(
+async function prepareContext(
   item: Zotero.Item,
-): Promise<TagResult> {
+  waitForAttachments: boolean = true,
+  options?: Pick<SuggestOptions, "hideTags" | "profile"> & {
+    /** Make no API requests, e.g. for embedding ranking (for estimates) */
+    noRequests?: boolean;
+  },
+): Promise<TaggingContext | TagResult> {
   const title = item.getField("title") || "(untitled)";
 
-  try {
-    // Resolve the target item (if attachment, get parent)
-    let targetItem = item;
-    let sourceAttachment: Zotero.Item | undefined;
-
-    if (item.isAttachment()) {
-      const parentID = item.parentID;
-      if (parentID) {
-        targetItem = Zotero.Items.get(parentID);
-        sourceAttachment = item;
-      } else {
-        return {
-          itemID: item.id,
-          title,
-          suggestedTags: [],
-          appliedTags: [],
-          reasoning: "",
-          error: "Standalone attachment without parent",
-        };
-      }
-    }
+  // Resolve the target item (if attachment, get parent)
+  let targetItem = item;
+  let sourceAttachment: Zotero.Item | undefined;
 
-    if (!targetItem.isRegularItem()) {
-      return {
-        itemID: item.id,
-        title,
-        suggestedTags: [],
-        appliedTags: [],
-        reasoning: "",
-        error: "Not a regular item",
-      };
+  if (item.isAttachment()) {
+    const parentID = item.parentID;
+    if (parentID) {
+      targetItem = Zotero.Items.get(parentID);
+      sourceAttachment = item;
+    } else {
+      return errorResult(item.id, title, "Standalone attachment without parent");
     }
+  }
 
-    // Get preferences
-    const tagSource = getPref("tagSource") as string;
-    const maxTags = getPref("maxTags") as number;
-    const temperature = parseFloat(getPref("temperature") as string);
-    const includeFullText = getPref("includeFullText") as boolean;
-    const maxFullTextLength = getPref("maxFullTextLength") as number;
-    const customPrompt = getPref("systemPrompt") as string;
-    const maxTokens = 1000;
-
-    // Get available tags
-    const availableTags = await getAvailableTags(targetItem.libraryID);
-    if (tagSource === "existing" && availableTags.length === 0) {
-      return {
-        itemID: targetItem.id,
-        title,
-        suggestedTags: [],
-        appliedTags: [],
-        reasoning: "",
-        error: "No available tags found in library",
-      };
-    }
+  if (!targetItem.isRegularItem()) {
+    return errorResult(item.id, title, "Not a regular item");
+  }
+
+  // Get preferences, overridden by the profile of the item's collections
+  const { name: profileName, profile } =
+    options?.profile || getItemProfile(targetItem);
+  const setting = (key: ProfileSetting) => getProfileSetting(profile, key);
+  const connection = getProfileConnection(profile);
+  const tagSource = setting("tagSource") as string;
+  const maxTags = setting("maxTags") as number;
+  const temperature = parseFloat(String(setting("temperature")));
+  const includeFullText = setting("includeFullText") as boolean;
+  const maxFullTextLength = setting("maxFullTextLength") as number;
+  const customPrompt = setting("systemPrompt") as string;
+  const longDocumentMode = setting("longDocumentMode") as boolean;
+  const fewShotExamples = setting("fewShotExamples") as number;
+  const maxTokens = 1000;
+  if (profileName) {
+    Zotero.debug(`[AI Tagger] Using profile "${profileName}" for ${title}`);
+  }
 
-    // Extract full text
-    let fullText = "";
-    if (includeFullText) {
-      const extraction = await extractFullText(
-        targetItem,
-        sourceAttachment,
-        maxFullTextLength,
+  // Get available tags
+  const availableTags = filterVocabulary(
+    await getAvailableTags(targetItem.libraryID),
+    profile,
+  );
+  if (tagSource === "existing" && availableTags.length === 0) {
+    return errorResult(
+      targetItem.id,
+      title,
+      profile.vocabularyFilter
+        ? `No library tags match the vocabulary filter of profile "${profileName}"`
+        : "No available tags found in library",
+    );
+  }
+
+  // Extract full text
+  let fullText = "";
+  if (includeFullText) {
+    // Long-document mode needs the whole text; it is condensed later
+    const extraction = await extractFullText(
+      targetItem,
+      sourceAttachment,
+      longDocumentMode ? Infinity : maxFullTextLength,
+      waitForAttachments,
+    );
+    fullText = extraction.text;
+  }
+
+  // Shortlist candidate tags so large vocabularies fit in the prompt and
+  // schema. Nothing is sent when the statistical tagger replaces the AI.
+  const metadata = getItemMetadata(targetItem);
+  if (options?.hideTags) metadata.currentTags = "";
+  const promptless = getStatisticalMode() === "only";
+  const candidateTags = promptless
+    ? availableTags
+    : await shortlistTags(
+        availableTags,
+        {
+          title: metadata.title,
+          abstractNote: metadata.abstractNote,
+          fullText,
+          item: targetItem,
+        },
+        (getPref("candidateLimit") as number) || 0,
+        !options?.noRequests,
       );
-      fullText = extraction.text;
-    }
 
-    // Build prompt and schema
-    const metadata = getItemMetadata(targetItem);
-    const prompt = buildPrompt(
-      metadata,
-      fullText,
+  // Show how similar items in the library were tagged
+  let examples = "";
+  try {
+    examples = await getFewShotExamples(
+      targetItem,
+      promptless ? 0 : fewShotExamples || 0,
       availableTags,
+    );
+  } catch (e) {
+    Zotero.debug(`[AI Tagger] Could not find example items: ${e}`);
+  }
+
+  const systemPrompt =
+    customPrompt ||
+    "You are a research librarian helping categorize academic documents. Suggest only tags that best describe the document's content, methodology, and subject area.";
+  const promptTemplate =
+    profile.promptTemplate || getTemplate(metadata.itemType);
+
+  // Current tags are left out of the cache key so items tagged by an
+  // earlier, partially failed run still hit. For the same reason the key
+  // holds what the candidates are shortlisted from, not the shortlist: in
+  // "new" mode the vocabulary is only a reference and grows with the tags
+  // a run creates, so it is left out entirely.
+  const ranking = getPref("candidateRanking") as string;
+  const cacheKey = buildCacheKey({
+    schemaVersion: RESPONSE_SCHEMA_VERSION,
+    provider: connection.provider,
+    baseURL: connection.baseURL,
+    model: connection.model,
+    metadata: { ...metadata, currentTags: undefined },
+    fullText,
+    candidates:
+      tagSource === "existing"
+        ? {
+            vocabulary: availableTags,
+            limit: getPref("candidateLimit"),
+            ranking,
+            embeddingModel:
+              ranking === "embedding" ? getPref("embeddingModel") : undefined,
+          }
+        : undefined,
+    examples: examples || undefined,
+    tagSource,
+    maxTags,
+    temperature,
+    systemPrompt,
+    // Left out for the built-in template, so existing entries still hit
+    promptTemplate:
+      promptTemplate === BUILTIN_TEMPLATE ? undefined : promptTemplate,
+    longDocumentMode,
+    chunkTokens: longDocumentMode ? getPref("chunkTokens") : undefined,
+    maxRequestsPerItem: longDocumentMode
+      ? getPref("maxRequestsPerItem")
+      : undefined,
+  });
+
+  return {
+    targetItem,
+    metadata,
+    fullText,
+    availableTags,
+    candidateTags,
+    examples,
+    tagSource,
+    maxTags,
+    temperature,
+    maxTokens,
+    systemPrompt,
+    promptTemplate,
+    maxFullTextLength,
+    longDocumentMode,
+    connection,
+    cacheKey,
+  };
+}
+
+/**
+ * Split long full text into the chunks that long-document mode analyzes,
+ * or return an empty list if the text fits as-is.
+ */
+function getLongDocumentChunks(context: TaggingContext): string[] {
+  const { fullText, maxFullTextLength } = context;
+  if (!context.longDocumentMode || fullText.length <= maxFullTextLength) {
+    return [];
+  }
+  const budget = (getPref("maxRequestsPerItem") as number) || 1;
+  // Two requests are reserved for the final tag selection and its repair
+  return selectChunks(
+    chunkText(fullText, getPref("chunkTokens") as number),
+    budget - 2,
+  );
+}
+
+/**
+ * Build the final tag-selection request.
+ */
+function buildTaggingRequest(
+  context: TaggingContext,
+  promptText: string,
+  fullTextHeading?: string,
+): TaggingRequest {
+  const prompt = renderTemplate(
+    context.promptTemplate,
+    buildPromptValues(
+      context.metadata,
+      promptText,
+      context.candidateTags,
+      context.tagSource,
+      context.maxTags,
+      context.examples,
+      fullTextHeading,
+    ),
+  );
+  return {
+    messages: [
+      { role: "system", content: context.systemPrompt },
+      { role: "user", content: prompt },
+    ],
+    responseFormat: buildResponseFormat(
+      context.candidateTags,
+      context.tagSource,
+    ),
+  };
+}
+
+/**
+ * Build the prompt for an item, call the AI, and parse its answer.
+ */
+async function generateTags(
+  context: TaggingContext,
+  signal?: AbortSignal,
+): Promise<TagAnswer> {
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+  // Long documents: map each chunk to candidate topics, then tag from
+  // the merged topics instead of the truncated front matter
+  let promptText = truncateText(context.fullText, context.maxFullTextLength);
+  let fullTextHeading: string | undefined;
+  const chunks = getLongDocumentChunks(context);
+  if (chunks.length > 0) {
+    const mapped = await extractChunkTopics(
+      chunks,
+      context.metadata.title,
+      context.temperature,
+      signal,
+      context.connection,
+    );
+    addUsage(usage, mapped.usage);
+    if (mapped.topics.length > 0) {
+      promptText = mapped.topics.map((t) => `- ${t}`).join("\n");
+      fullTextHeading = `KEY TOPICS FROM ${chunks.length} SECTIONS OF THE FULL TEXT`;
+    }
+  }
+
+  const request = buildTaggingRequest(context, promptText, fullTextHeading);
+
+  // Call AI and parse its answer, with one repair attempt
+  try {
+    const { parsed, usage: answerUsage } = await completeStructured<{
+      tags: TagSuggestion[];
+      reasoning: string;
+    }>(
+      {
+        messages: request.messages,
+        temperature: context.temperature,
+        max_tokens: context.maxTokens,
+        response_format: request.responseFormat,
+      },
+      { signal, connection: context.connection },
+    );
+    addUsage(usage, answerUsage);
+    return { tags: parsed.tags, reasoning: parsed.reasoning, usage };
+  } catch (e) {
+    // The map step's requests are billed even if the final one fails
+    addUsage(usage, getErrorUsage(e));
+    if (usage.promptTokens === 0 && usage.completionTokens === 0) throw e;
+    throw new StructuredResponseError((e as Error).message, usage);
+  }
+}
+
+/**
+ * Predict an item's tags with the statistical tagger instead of the AI.
+ */
+function predictContextTags(context: TaggingContext): Promise<TagAnswer> {
+  return predictTags(
+    context.targetItem,
+    context.fullText,
+    context.availableTags,
+    context.maxTags,
+  );
+}
+
+/**
+ * Build the tagging request for an item without sending it, for the
+ * offline Batch API. Long documents use the truncated text, since the
+ * section-by-section map step needs live requests.
+ * Returns an error TagResult if the item can't be tagged.
+ */
+export async function prepareTaggingRequest(
+  item: Zotero.Item,
+): Promise<PreparedRequest | TagResult> {
+  const context = await prepareContext(item, false);
+  if (!("cacheKey" in context)) return context;
+
+  const request = buildTaggingRequest(
+    context,
+    truncateText(context.fullText, context.maxFullTextLength),
+  );
+  return {
+    itemID: item.id,
+    request: {
+      messages: request.messages,
+      temperature: context.temperature,
+      max_tokens: context.maxTokens,
+      response_format: request.responseFormat,
+    },
+  };
+}
+
+/**
+ * Collect an item's prompt values for the template preview, with the
+ * truncated full text and the candidate tags a run would send.
+ * Returns an error TagResult if the item can't be tagged.
+ */
+export async function getPromptPreviewValues(
+  item: Zotero.Item,
+): Promise<PromptValues | TagResult> {
+  const context = await prepareContext(item, false);
+  if (!("cacheKey" in context)) return context;
+
+  return buildPromptValues(
+    context.metadata,
+    truncateText(context.fullText, context.maxFullTextLength),
+    context.candidateTags,
+    context.tagSource,
+    context.maxTags,
+    context.examples,
+  );
+}
+
+/**
+ * Read a tagging answer from a raw response, e.g. a Batch API output line.
+ * Tag names aren't checked against the vocabulary here; suggestTags does that.
+ * Throws a ResponseParseError if the answer can't be read.
+ */
+export function parseTagAnswer(response: ChatCompletionResponse): TagAnswer {
+  const parsed = parseStructuredResponse<{
+    tags: TagSuggestion[];
+    reasoning: string;
+  }>(response, buildResponseFormat([], "new"));
+  return {
+    tags: parsed.tags,
+    reasoning: parsed.reasoning,
+    usage: getUsage([], response),
+  };
+}
+
+/**
+ * Estimate the requests and tokens tagging an item will use, from the same
+ * prompt the run would send. Cached items are free. No API requests are
+ * made: embedding ranking is estimated with lexical ranking.
+ */
+export async function estimateItemUsage(
+  item: Zotero.Item,
+  options?: SuggestOptions,
+): Promise<ItemEstimate> {
+  const context = await prepareContext(item, false, { noRequests: true });
+  if (!("cacheKey" in context) || getStatisticalMode() === "only") {
+    return { requests: 0, inputTokens: 0, outputTokens: 0, cached: false };
+  }
+
+  if (
+    (getPref("useResponseCache") as boolean) &&
+    !options?.bypassCache &&
+    (await hasCachedResponse(context.cacheKey))
+  ) {
+    return { requests: 0, inputTokens: 0, outputTokens: 0, cached: true };
+  }
+
+  let requests = 1;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let promptText = truncateText(context.fullText, context.maxFullTextLength);
+
+  const chunks = getLongDocumentChunks(context);
+  if (chunks.length > 0) {
+    const mapEstimate = estimateChunkTopicsUsage(chunks, context.metadata.title);
+    requests += chunks.length;
+    inputTokens += mapEstimate.promptTokens;
+    outputTokens += mapEstimate.completionTokens;
+    // The final prompt carries the merged topics instead of the full text
+    promptText = "";
+    inputTokens += mapEstimate.completionTokens;
+  }
+
+  const request = buildTaggingRequest(context, promptText);
+  inputTokens += estimateMessagesTokens(request.messages);
+  inputTokens += estimateTokens(JSON.stringify(request.responseFormat));
+  outputTokens += Math.min(
+    context.maxTokens,
+    ESTIMATED_COMPLETION_TOKENS,
+  );
+
+  const { provider, model } = context.connection;
+  return {
+    requests,
+    inputTokens,
+    outputTokens,
+    cached: false,
+    provider,
+    model,
+  };
+}
+
+/**
+ * Compute the cost of a result's usage with the model that answered it,
+ * or null if that model isn't priced.
+ */
+export function getResultCost(result: TagResult): number | null {
+  if (!result.usage) return 0;
+  return computeCost(
+    result.usage,
+    result.usageModel || result.model || "",
+    result.provider || "",
+  );
+}
+
+/**
+ * Check suggestions against the vocabulary (see validateTags), clamp
+ * confidences to 0–1 and drop duplicates, highest confidence first.
+ */
+function validateSuggestions(
+  suggestions: TagSuggestion[],
+  vocabulary: string[],
+  tagSource: string,
+): TagSuggestion[] {
+  const seen = new Set<string>();
+  const validated: TagSuggestion[] = [];
+  for (const suggestion of suggestions || []) {
+    const [name] = validateTags(
+      [String(suggestion?.name || "")],
+      vocabulary,
       tagSource,
-      maxTags,
     );
-    const responseFormat = buildResponseFormat(availableTags, tagSource);
-
-    const systemPrompt =
-      customPrompt ||
-      "You are a research librarian helping categorize academic documents. Suggest only tags that best describe the document's content, methodology, and subject area.";
-
-    // Call AI
-    const result = await chatCompletionWithFallback({
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: prompt },
-      ],
-      temperature,
-      max_tokens: maxTokens,
-      response_format: responseFormat,
+    if (!name || seen.has(name)) continue;
+    seen.add(name);
+    const confidence = Number(suggestion.confidence);
+    validated.push({
+      name,
+      confidence: isNaN(confidence) ? 0 : Math.min(1, Math.max(0, confidence)),
+      justification: String(suggestion.justification || ""),
     });
+  }
+  return validated.sort((a, b) => b.confidence - a.confidence);
+}
 
-    // Parse response
-    const content = result.choices[0].message.content;
-    const parsed = JSON.parse(content) as {
-      tags: string[];
-      reasoning: string;
+/**
+ * Split a result's suggestions into tags to apply directly and tags that
+ * need confirmation, by the auto-apply threshold. With `reviewAll`
+ * (confirmation mode) every tag needs confirmation.
+ */
+export function partitionByConfidence(
+  result: TagResult,
+  reviewAll: boolean,
+): { autoTags: string[]; reviewTags: string[] } {
+  if (reviewAll) return { autoTags: [], reviewTags: result.suggestedTags };
+
+  const threshold = parseFloat(getPref("autoApplyThreshold") as string) || 0;
+  const confidence = new Map(
+    (result.suggestions || []).map((s) => [s.name, s.confidence]),
+  );
+  const autoTags: string[] = [];
+  const reviewTags: string[] = [];
+  for (const tag of result.suggestedTags) {
+    // Results without confidence data (e.g. from an older saved job) are applied
+    if ((confidence.get(tag) ?? 1) >= threshold) {
+      autoTags.push(tag);
+    } else {
+      reviewTags.push(tag);
+    }
+  }
+  return { autoTags, reviewTags };
+}
+
+/**
+ * Run AI tagging on a single Zotero item.
+ * Returns the result without applying tags (caller decides based on confirmation mode).
+ */
+export async function suggestTags(
+  item: Zotero.Item,
+  options?: SuggestOptions,
+): Promise<TagResult> {
+  const title = item.getField("title") || "(untitled)";
+  let connection: Connection | undefined;
+
+  try {
+    const context = await prepareContext(
+      item,
+      options?.waitForAttachments ?? true,
+      options,
+    );
+    if (!("cacheKey" in context)) return context;
+    if (options?.signal?.aborted) throw new Error("Request cancelled");
+    const { targetItem, tagSource } = context;
+    connection = context.connection;
+
+    const answer = options?.answer;
+    // Batch API requests are sent with the global connection
+    const { provider, model } = answer ? getConnection() : context.connection;
+    if (answer?.error) {
+      return {
+        ...errorResult(item.id, title, answer.error),
+        usage: answer.usage,
+        provider,
+        model,
+      };
+    }
+
+    // Check the response cache; it only holds AI answers
+    const statisticalMode = getStatisticalMode();
+    const useCache =
+      (getPref("useResponseCache") as boolean) &&
+      !options?.bypassCache &&
+      !answer &&
+      statisticalMode !== "only";
+
+    let parsed: { tags: TagSuggestion[]; reasoning: string } | null =
+      answer || (useCache ? await getCachedResponse(context.cacheKey) : null);
+    const cached = parsed !== null && !answer;
+    let usage: TokenUsage = answer?.usage || {
+      promptTokens: 0,
+      completionTokens: 0,
     };
+    let offline = false;
+    if (!parsed) {
+      let generated: TagAnswer;
+      if (statisticalMode === "only") {
+        generated = await predictContextTags(context);
+        offline = true;
+      } else {
+        try {
+          generated = await generateTags(context, options?.signal);
+        } catch (error) {
+          if (statisticalMode !== "fallback" || options?.signal?.aborted) {
+            throw error;
+          }
+          Zotero.debug(
+            `[AI Tagger] AI request failed, using the statistical tagger: ${error}`,
+          );
+          generated = await predictContextTags(context);
+          addUsage(generated.usage, getErrorUsage(error));
+          offline = true;
+        }
+      }
+      parsed = generated;
+      usage = generated.usage;
+      if (useCache && !offline) {
+        await setCachedResponse(context.cacheKey, {
+          tags: parsed.tags,
+          reasoning: parsed.reasoning,
+          model: context.connection.model,
+          createdAt: new Date().toISOString(),
+        });
+      }
+    }
 
     // Filter: remove duplicates and already-existing tags
-    const currentTags = targetItem
-      .getTags()
-      .map((t: { tag: string }) => t.tag);
-    const suggestedTags = [...new Set(parsed.tags)].filter(
-      (tag) => !currentTags.includes(tag),
+    const currentTags = options?.hideTags
+      ? []
+      : targetItem.getTags().map((t: { tag: string }) => t.tag);
+    const reviewThreshold = parseFloat(getPref("reviewThreshold") as string) || 0;
+    const suggestions = validateSuggestions(
+      parsed.tags,
+      context.availableTags,
+      tagSource,
+    ).filter(
+      (s) => !currentTags.includes(s.name) && s.confidence >= reviewThreshold,
     );
 
     return {
       itemID: targetItem.id,
       title: targetItem.getField("title") || "(untitled)",
-      suggestedTags,
+      suggestedTags: suggestions.map((s) => s.name),
+      suggestions,
       appliedTags: [],
       reasoning: parsed.reasoning,
+      cached,
+      offline,
+      usage,
+      provider,
+      model: offline ? STATISTICAL_MODEL : model,
+      ...(offline && (usage.promptTokens || usage.completionTokens)
+        ? { usageModel: model }
+        : {}),
     };
   } catch (error) {
+    // Failed requests are billed too, so they count towards costs and budgets
+    const usage = getErrorUsage(error);
     return {
-      itemID: item.id,
-      title,
-      suggestedTags: [],
-      appliedTags: [],
-      reasoning: "",
-      error: (error as Error).message,
+      ...errorResult(item.id, title, (error as Error).message),
+      ...(usage && connection
+        ? { usage, provider: connection.provider, model: connection.model }
+        : {}),
     };
   }
 }
 
 /**
  * Apply tags to a Zotero item and save.
+ * Returns the tags that were actually added (tags already on the item are skipped).
+ * Tags are added as automatic tags if the "automaticTags" preference is set,
+ * along with the marker tag and a provenance line naming `model`, the
+ * model that suggested them, when configured.
+ * If a run is given, the added tags are recorded in the run journal.
  */
 export async function applyTags(
   itemID: number,
   tags: string[],
-): Promise<void> {
-  const item = Zotero.Items.get(itemID);
+  model: string,
+  run?: TaggingRun,
+): Promise<string[]> {
+  const item = Zotero.Items.get(itemID) as Zotero.Item;
+  const type = getPref("automaticTags") ? 1 : 0;
+  const added: string[] = [];
   for (const tag of tags) {
-    item.addTag(tag);
+    if (item.addTag(tag, type)) added.push(tag);
   }
-  if (tags.length > 0) {
-    await item.saveTx();
+  if (added.length === 0) return added;
+
+  const markerTag = ((getPref("markerTag") as string) || "").trim();
+  const marker =
+    markerTag && item.addTag(markerTag, type) ? markerTag : undefined;
+
+  const target = getProvenanceTarget();
+  const line = formatProvenance(added, model, run);
+  if (target === "extra") addProvenanceToExtra(item, line);
+  await item.saveTx();
+  if (target === "note") {
+    try {
+      await addProvenanceNote(item, line);
+    } catch (e) {
+      Zotero.debug(`[AI Tagger] Could not write provenance note: ${e}`);
+    }
+  }
+
+  if (run) {
+    await recordRunItem(run, {
+      itemID,
+      tags: added,
+      type,
+      marker,
+      model,
+      modifiedAt: item.dateModified,
+    });
   }
+  return added;
 }
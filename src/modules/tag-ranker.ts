@@ -0,0 +1,248 @@
+import { createEmbeddings } from "./ai-service";
+import { tokenize } from "./library-index";
+import { getPref } from "./preferences";
+import { scoreTagsStatistically } from "./statistical-tagger";
+
+export interface RankingInput {
+  title: string;
+  abstractNote: string;
+  fullText: string;
+  /** The item being tagged, needed for statistical ranking */
+  item?: Zotero.Item;
+}
+
+/** Field weights for lexical matching: a title hit counts more than a body hit. */
+const TITLE_WEIGHT = 3;
+const ABSTRACT_WEIGHT = 2;
+const FULLTEXT_WEIGHT = 1;
+
+/** Bonus for a multi-word tag appearing verbatim in the text. */
+const PHRASE_BONUS = 2;
+
+/** Max texts per embeddings request. */
+const EMBEDDING_BATCH_SIZE = 256;
+
+/** Characters of full text included in the query embedding. */
+const EMBEDDING_QUERY_FULLTEXT = 2000;
+
+// Tag embeddings are reused across items for the rest of the session
+const tagEmbeddingCache = new Map<string, number[]>();
+
+/**
+ * Count weighted token occurrences across the item's fields.
+ */
+function buildTermFrequencies(input: RankingInput): Map<string, number> {
+  const tf = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const token of tokenize(text)) {
+      tf.set(token, (tf.get(token) || 0) + weight);
+    }
+  };
+  add(input.title, TITLE_WEIGHT);
+  add(input.abstractNote, ABSTRACT_WEIGHT);
+  add(input.fullText, FULLTEXT_WEIGHT);
+  return tf;
+}
+
+/**
+ * Score every vocabulary tag by lexical overlap with the item.
+ * Tag tokens are weighted by their rarity across the vocabulary, so
+ * "bayesian" outweighs "analysis" in "bayesian analysis".
+ */
+function scoreLexical(
+  vocabulary: string[],
+  input: RankingInput,
+): Map<string, number> {
+  const tf = buildTermFrequencies(input);
+  const haystack = ` ${tokenize(
+    `${input.title} ${input.abstractNote} ${input.fullText}`,
+  ).join(" ")} `;
+
+  const tagTokens = vocabulary.map((tag) => [...new Set(tokenize(tag))]);
+
+  // Document frequency of each token across the vocabulary
+  const df = new Map<string, number>();
+  for (const tokens of tagTokens) {
+    for (const token of tokens) df.set(token, (df.get(token) || 0) + 1);
+  }
+
+  const scores = new Map<string, number>();
+  vocabulary.forEach((tag, i) => {
+    const tokens = tagTokens[i];
+    if (tokens.length === 0) {
+      scores.set(tag, 0);
+      return;
+    }
+
+    let score = 0;
+    for (const token of tokens) {
+      const count = tf.get(token) || 0;
+      if (count === 0) continue;
+      const idf = Math.log(1 + vocabulary.length / (df.get(token) || 1));
+      score += Math.log(1 + count) * idf;
+    }
+    score /= tokens.length;
+
+    if (tokens.length > 1 && haystack.includes(` ${tokens.join(" ")} `)) {
+      score += PHRASE_BONUS;
+    }
+    scores.set(tag, score);
+  });
+  return scores;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Score every vocabulary tag by embedding similarity with the item.
+ */
+async function scoreEmbedding(
+  vocabulary: string[],
+  input: RankingInput,
+): Promise<Map<string, number>> {
+  const model = getPref("embeddingModel") as string;
+  const cacheKey = (tag: string) => `${model}\u0000${tag}`;
+
+  const missing = vocabulary.filter(
+    (tag) => !tagEmbeddingCache.has(cacheKey(tag)),
+  );
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await createEmbeddings(batch, model);
+    batch.forEach((tag, j) => tagEmbeddingCache.set(cacheKey(tag), vectors[j]));
+  }
+
+  const query = [
+    input.title,
+    input.abstractNote,
+    input.fullText.substring(0, EMBEDDING_QUERY_FULLTEXT),
+  ]
+    .filter((s) => s.length > 0)
+    .join("\n\n");
+  const [queryVector] = await createEmbeddings([query], model);
+
+  const scores = new Map<string, number>();
+  for (const tag of vocabulary) {
+    scores.set(tag, cosine(queryVector, tagEmbeddingCache.get(cacheKey(tag))!));
+  }
+  return scores;
+}
+
+/**
+ * Score every vocabulary tag by how often the most similar tagged items in
+ * the library have it (see statistical-tagger). Tags no similar item has
+ * rank below the rest, ordered by keyword match.
+ */
+async function scoreStatistical(
+  vocabulary: string[],
+  input: RankingInput,
+): Promise<Map<string, number>> {
+  const lexical = scoreLexical(vocabulary, input);
+  if (!input.item) return lexical;
+  const votes = await scoreTagsStatistically(
+    input.item,
+    input.fullText,
+    vocabulary,
+  );
+
+  let maxLexical = 0;
+  for (const score of lexical.values())
+    maxLexical = Math.max(maxLexical, score);
+  const scores = new Map<string, number>();
+  for (const tag of vocabulary) {
+    const vote = votes.get(tag);
+    // Votes are 0–1, so voted tags are lifted above every unvoted one
+    scores.set(
+      tag,
+      vote ? 1 + vote : (lexical.get(tag) || 0) / (maxLexical + 1),
+    );
+  }
+  return scores;
+}
+
+/**
+ * Pick the vocabulary tags most relevant to an item, so large vocabularies
+ * fit in the prompt and the schema enum.
+ *
+ * Returns the vocabulary unchanged if it is already within the limit
+ * (a limit of 0 disables shortlisting). Without `allowRequests`, embedding
+ * ranking is replaced by lexical ranking, which shortlists as many tags
+ * without calling the API (used for estimates).
+ */
+export async function shortlistTags(
+  vocabulary: string[],
+  input: RankingInput,
+  limit: number,
+  allowRequests = true,
+): Promise<string[]> {
+  if (limit <= 0 || vocabulary.length <= limit) return vocabulary;
+
+  let scores: Map<string, number>;
+  const ranking = getPref("candidateRanking");
+  if (ranking === "statistical") {
+    try {
+      scores = await scoreStatistical(vocabulary, input);
+    } catch (e) {
+      Zotero.debug(
+        `[AI Tagger] Statistical ranking failed, falling back to lexical: ${e}`,
+      );
+      scores = scoreLexical(vocabulary, input);
+    }
+  } else if (ranking === "embedding" && allowRequests) {
+    try {
+      scores = await scoreEmbedding(vocabulary, input);
+    } catch (e) {
+      Zotero.debug(
+        `[AI Tagger] Embedding ranking failed, falling back to lexical: ${e}`,
+      );
+      scores = scoreLexical(vocabulary, input);
+    }
+  } else {
+    scores = scoreLexical(vocabulary, input);
+  }
+
+  // Stable sort keeps alphabetical order among equal scores
+  return [...vocabulary]
+    .sort((a, b) => (scores.get(b) || 0) - (scores.get(a) || 0))
+    .slice(0, limit)
+    .sort();
+}
+
+/**
+ * Check model output against the full vocabulary.
+ * For "existing" mode, tags outside the vocabulary are dropped; in both modes,
+ * tags matching a vocabulary tag case-insensitively are mapped to its spelling.
+ */
+export function validateTags(
+  tags: string[],
+  vocabulary: string[],
+  tagSource: string,
+): string[] {
+  const canonical = new Map<string, string>();
+  for (const tag of vocabulary) canonical.set(tag.toLowerCase(), tag);
+
+  const validated: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag) continue;
+    const match = canonical.get(tag.toLowerCase());
+    if (match) {
+      validated.push(match);
+    } else if (tagSource !== "existing") {
+      validated.push(tag);
+    } else {
+      Zotero.debug(`[AI Tagger] Dropping tag not in vocabulary: ${tag}`);
+    }
+  }
+  return [...new Set(validated)];
+}
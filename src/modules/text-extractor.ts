@@ -67,11 +67,13 @@ export interface ExtractionResult {
  * @param targetItem - The parent Zotero item
  * @param sourceAttachment - If the trigger was an attachment itself, pass it here
  * @param maxLength - Maximum text length to return
+ * @param waitForAttachments - Wait for attachments to appear if there are none yet
  */
 export async function extractFullText(
   targetItem: Zotero.Item,
   sourceAttachment?: Zotero.Item,
   maxLength: number = 12000,
+  waitForAttachments: boolean = true,
 ): Promise<ExtractionResult> {
   let fullText = "";
   let source: ExtractionResult["source"] = "none";
@@ -85,7 +87,7 @@ export async function extractFullText(
     let attachmentIDs = targetItem.getAttachments();
 
     // Wait up to 10 seconds for attachments to appear (browser import case)
-    if (attachmentIDs.length === 0) {
+    if (attachmentIDs.length === 0 && waitForAttachments) {
       for (let i = 0; i < 10; i++) {
         await new Promise((resolve) => setTimeout(resolve, 1000));
         attachmentIDs = targetItem.getAttachments();
@@ -132,10 +134,13 @@ export async function extractFullText(
     }
   }
 
-  // Truncate if too long
-  if (fullText.length > maxLength) {
-    fullText = fullText.substring(0, maxLength) + "...[truncated]";
-  }
+  return { text: truncateText(fullText, maxLength), source };
+}
 
-  return { text: fullText, source };
+/**
+ * Truncate text to a maximum length, marking the cut.
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength) + "...[truncated]";
 }
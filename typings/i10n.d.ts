@@ -4,33 +4,113 @@
 // @ts-nocheck
 export type FluentMessageId =
   | 'addon-name'
+  | 'batch-progress-cancel'
+  | 'batch-progress-close'
+  | 'batch-progress-pause'
+  | 'batch-progress-window'
+  | 'confirm-apply'
+  | 'confirm-apply-all'
+  | 'confirm-auto-tags'
+  | 'confirm-cancel'
+  | 'confirm-cancel-batch'
+  | 'confirm-custom-tags'
+  | 'confirm-custom-tags-placeholder'
   | 'confirm-description'
+  | 'confirm-reasoning'
+  | 'confirm-select-all'
+  | 'confirm-select-none'
+  | 'confirm-skip'
   | 'confirm-title'
+  | 'confirm-window'
+  | 'menu-collection-profile'
+  | 'menuitem-apply-report'
+  | 'menuitem-dry-run'
+  | 'menuitem-dry-run-collection'
+  | 'menuitem-evaluate-collection'
   | 'menuitem-generate-tags'
   | 'menuitem-generate-tags-collection'
+  | 'menuitem-jobs'
+  | 'menuitem-offline-batch-collection'
+  | 'menuitem-retag'
+  | 'menuitem-retag-collection'
+  | 'menuitem-undo-last-run'
+  | 'menuitem-undo-run'
   | 'pref-api-baseurl'
   | 'pref-api-key'
   | 'pref-api-model'
+  | 'pref-api-model-list'
   | 'pref-api-provider'
+  | 'pref-api-provider-anthropic'
   | 'pref-api-provider-custom'
+  | 'pref-api-provider-local'
   | 'pref-api-provider-openai'
+  | 'pref-api-refresh-models'
   | 'pref-api-test'
   | 'pref-api-title'
+  | 'pref-autotag-delay'
+  | 'pref-autotag-enable'
+  | 'pref-autotag-title'
+  | 'pref-autotag-wait'
+  | 'pref-budget-cost'
+  | 'pref-budget-prices'
+  | 'pref-budget-prices-help'
+  | 'pref-budget-title'
+  | 'pref-budget-tokens'
+  | 'pref-cache-clear'
+  | 'pref-cache-enable'
+  | 'pref-cache-title'
   | 'pref-performance-concurrency'
-  | 'pref-performance-interval'
+  | 'pref-performance-rpm'
+  | 'pref-performance-timeout'
   | 'pref-performance-title'
+  | 'pref-performance-tpm'
+  | 'pref-profiles'
+  | 'pref-profiles-help'
+  | 'pref-profiles-title'
+  | 'pref-provenance-automatic-tags'
+  | 'pref-provenance-marker-tag'
+  | 'pref-provenance-record'
+  | 'pref-provenance-record-extra'
+  | 'pref-provenance-record-none'
+  | 'pref-provenance-record-note'
+  | 'pref-provenance-title'
+  | 'pref-tagging-auto-apply-threshold'
+  | 'pref-tagging-candidate-limit'
+  | 'pref-tagging-candidate-ranking'
+  | 'pref-tagging-candidate-ranking-embedding'
+  | 'pref-tagging-candidate-ranking-lexical'
+  | 'pref-tagging-candidate-ranking-statistical'
+  | 'pref-tagging-chunk-tokens'
   | 'pref-tagging-confirmation'
+  | 'pref-tagging-embedding-model'
+  | 'pref-tagging-few-shot'
+  | 'pref-tagging-fewer-tags-than'
   | 'pref-tagging-fulltext'
   | 'pref-tagging-fulltext-maxlen'
+  | 'pref-tagging-include-subcollections'
+  | 'pref-tagging-long-document'
   | 'pref-tagging-max'
+  | 'pref-tagging-max-requests'
   | 'pref-tagging-prefix-filter'
+  | 'pref-tagging-review-threshold'
+  | 'pref-tagging-skip-processed'
   | 'pref-tagging-source'
   | 'pref-tagging-source-existing'
   | 'pref-tagging-source-new'
+  | 'pref-tagging-statistical'
+  | 'pref-tagging-statistical-fallback'
+  | 'pref-tagging-statistical-off'
+  | 'pref-tagging-statistical-only'
   | 'pref-tagging-system-prompt'
   | 'pref-tagging-system-prompt-placeholder'
   | 'pref-tagging-temperature'
   | 'pref-tagging-title'
+  | 'pref-template-item-type'
+  | 'pref-template-item-type-default'
+  | 'pref-template-placeholders'
+  | 'pref-template-preview-refresh'
+  | 'pref-template-reset'
+  | 'pref-template-title'
   | 'pref-title'
   | 'progress-analyzing'
   | 'progress-applying'
@@ -16,11 +16,39 @@ declare namespace _ZoteroTypes {
       "temperature": string;
       "includeFullText": boolean;
       "maxFullTextLength": number;
+      "longDocumentMode": boolean;
+      "chunkTokens": number;
+      "maxRequestsPerItem": number;
       "tagPrefixFilter": string;
+      "candidateLimit": number;
+      "candidateRanking": string;
+      "embeddingModel": string;
+      "fewShotExamples": number;
+      "statisticalTagging": string;
       "systemPrompt": string;
+      "promptTemplates": string;
       "confirmationMode": boolean;
+      "autoApplyThreshold": string;
+      "reviewThreshold": string;
+      "skipProcessed": boolean;
+      "fewerTagsThan": number;
+      "includeSubcollections": boolean;
+      "profiles": string;
+      "profileAssignments": string;
+      "automaticTags": boolean;
+      "markerTag": string;
+      "provenance": string;
+      "autoTagOnImport": boolean;
+      "autoTagDelay": number;
+      "autoTagWaitSeconds": number;
+      "useResponseCache": boolean;
+      "modelPrices": string;
+      "budgetTokens": number;
+      "budgetCost": string;
       "concurrency": number;
-      "requestInterval": number;
+      "requestsPerMinute": number;
+      "tokensPerMinute": number;
+      "requestTimeout": number;
     };
   }
 }